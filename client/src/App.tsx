@@ -5,6 +5,8 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
+import Login from "@/pages/login";
+import { RequireAuth } from "@/components/RequireAuth";
 
 function PublicHome() {
   return (
@@ -33,7 +35,12 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={PublicHome} />
-      <Route path="/admin/dashboard" component={Dashboard} />
+      <Route path="/admin/login" component={Login} />
+      <Route path="/admin/dashboard">
+        <RequireAuth>
+          <Dashboard />
+        </RequireAuth>
+      </Route>
       <Route component={NotFound} />
     </Switch>
   );
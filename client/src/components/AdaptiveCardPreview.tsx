@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import * as AdaptiveCards from "adaptivecards";
+import { teamsBackgrounds, teamsHostConfigs, type TeamsTheme } from "@/lib/teamsHostConfig";
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// The subset of markdown Teams renders in TextBlocks: bold, italics, links and line breaks
+AdaptiveCards.AdaptiveCard.onProcessMarkdown = (text, result) => {
+  result.outputHtml = escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|\W)_(.+?)_(?=\W|$)/g, "$1<em>$2</em>")
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
+    .replace(/\n/g, "<br>");
+  result.didProcess = true;
+};
+
+interface AdaptiveCardPreviewProps {
+  card: object;
+  theme?: TeamsTheme;
+  onAction?: (action: { type: string; title?: string; data?: unknown; url?: string }) => void;
+}
+
+export function AdaptiveCardPreview({ card, theme = "light", onAction }: AdaptiveCardPreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    try {
+      const adaptiveCard = new AdaptiveCards.AdaptiveCard();
+      adaptiveCard.hostConfig = new AdaptiveCards.HostConfig(teamsHostConfigs[theme]);
+      adaptiveCard.onExecuteAction = action => {
+        if (action instanceof AdaptiveCards.OpenUrlAction && action.url) {
+          window.open(action.url, "_blank", "noopener,noreferrer");
+        }
+        onAction?.({
+          type: action.getJsonTypeName(),
+          title: action.title,
+          data: action instanceof AdaptiveCards.SubmitAction ? action.data : undefined,
+          url: action instanceof AdaptiveCards.OpenUrlAction ? action.url : undefined,
+        });
+      };
+      adaptiveCard.parse(card);
+
+      const rendered = adaptiveCard.render();
+      container.replaceChildren(...(rendered ? [rendered] : []));
+      setError(null);
+    } catch (renderError) {
+      container.replaceChildren();
+      setError(renderError instanceof Error ? renderError.message : "Card could not be rendered");
+    }
+  }, [card, theme, onAction]);
+
+  return (
+    <div
+      className={`teams-card-preview theme-${theme} rounded-lg border border-gray-200 p-2 shadow-sm`}
+      style={{ backgroundColor: teamsBackgrounds[theme] }}
+    >
+      {error && <p className="text-sm text-red-600 p-2">{error}</p>}
+      <div ref={containerRef} />
+    </div>
+  );
+}
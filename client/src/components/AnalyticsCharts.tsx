@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+type Bucket = "day" | "week" | "month";
+
+interface TimeseriesPoint {
+  bucket: string;
+  value: number | null;
+  breakdown?: Record<string, number>;
+}
+
+interface Timeseries {
+  points: TimeseriesPoint[];
+}
+
+interface ChartRange {
+  label: string;
+  days: number;
+  bucket: Bucket;
+}
+
+const ranges: ChartRange[] = [
+  { label: "14 days", days: 14, bucket: "day" },
+  { label: "30 days", days: 30, bucket: "day" },
+  { label: "12 weeks", days: 84, bucket: "week" },
+  { label: "12 months", days: 365, bucket: "month" },
+];
+
+const severityColors: Record<string, string> = {
+  low: "#16a34a",
+  medium: "#eab308",
+  high: "#f97316",
+  critical: "#dc2626",
+};
+
+function formatBucket(bucket: string, size: Bucket): string {
+  const date = new Date(`${bucket}T00:00:00Z`);
+  return size === "month"
+    ? date.toLocaleDateString(undefined, { month: "short", year: "2-digit", timeZone: "UTC" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function useTimeseries(metric: string, range: ChartRange) {
+  const from = new Date(Date.now() - (range.days - 1) * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  return useQuery<Timeseries>({
+    queryKey: [`/api/analytics/timeseries?metric=${metric}&bucket=${range.bucket}&from=${from}`],
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+// Lines up several metrics' points by bucket for one chart
+function mergeSeries(range: ChartRange, series: Record<string, Timeseries | undefined>) {
+  const first = Object.values(series).find(Boolean);
+  return (first?.points || []).map((point, index) => {
+    const row: Record<string, string | number | null> = { label: formatBucket(point.bucket, range.bucket) };
+    for (const [name, timeseries] of Object.entries(series)) {
+      row[name] = timeseries?.points[index]?.value ?? null;
+    }
+    return row;
+  });
+}
+
+function ChartCard({ title, description, loading, children }: {
+  title: string;
+  description: string;
+  loading: boolean;
+  children: React.ReactElement;
+}) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : (
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              {children}
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AnalyticsCharts() {
+  const [range, setRange] = useState<ChartRange>(ranges[1]);
+
+  const interactions = useTimeseries("interactions", range);
+  const uniqueUsers = useTimeseries("unique_users", range);
+  const p50 = useTimeseries("response_time_p50", range);
+  const p95 = useTimeseries("response_time_p95", range);
+  const helpfulRate = useTimeseries("helpful_rate", range);
+  const feedbackRate = useTimeseries("feedback_rate", range);
+  const severity = useTimeseries("severity", range);
+
+  const volume = mergeSeries(range, { interactions: interactions.data, users: uniqueUsers.data });
+  const responseTimes = mergeSeries(range, { p50: p50.data, p95: p95.data });
+  const feedback = mergeSeries(range, { helpful: helpfulRate.data, rated: feedbackRate.data });
+  const severities = (severity.data?.points || []).map(point => ({
+    label: formatBucket(point.bucket, range.bucket),
+    ...point.breakdown,
+  }));
+
+  const totalInteractions = (interactions.data?.points || []).reduce((total, point) => total + (point.value || 0), 0);
+  const axisProps = { tick: { fontSize: 11 }, tickLine: false, axisLine: false };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end gap-2">
+        {ranges.map(option => (
+          <Button
+            key={option.label}
+            variant={range.label === option.label ? "default" : "outline"}
+            size="sm"
+            onClick={() => setRange(option)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ChartCard
+          title="Interactions"
+          description={`${totalInteractions} questions answered, with unique users per ${range.bucket}`}
+          loading={interactions.isLoading || uniqueUsers.isLoading}
+        >
+          <ComposedChart data={volume}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis allowDecimals={false} width={32} {...axisProps} />
+            <Tooltip />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar dataKey="interactions" name="Interactions" fill="#2563eb" radius={[2, 2, 0, 0]} />
+            <Line dataKey="users" name="Unique users" stroke="#7c3aed" dot={false} strokeWidth={2} />
+          </ComposedChart>
+        </ChartCard>
+
+        <ChartCard
+          title="Response Time"
+          description="Median and 95th percentile time to answer"
+          loading={p50.isLoading || p95.isLoading}
+        >
+          <LineChart data={responseTimes}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis width={48} tickFormatter={value => `${(value / 1000).toFixed(1)}s`} {...axisProps} />
+            <Tooltip formatter={(value: number) => `${Math.round(value)}ms`} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line dataKey="p50" name="p50" stroke="#16a34a" strokeWidth={2} dot={false} connectNulls />
+            <Line dataKey="p95" name="p95" stroke="#f97316" strokeWidth={2} dot={false} connectNulls />
+          </LineChart>
+        </ChartCard>
+
+        <ChartCard
+          title="Feedback"
+          description="Share of rated answers marked helpful, and share of answers rated at all"
+          loading={helpfulRate.isLoading || feedbackRate.isLoading}
+        >
+          <LineChart data={feedback}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis width={40} domain={[0, 1]} tickFormatter={formatPercent} {...axisProps} />
+            <Tooltip formatter={(value: number) => formatPercent(value)} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line dataKey="helpful" name="Helpful" stroke="#16a34a" strokeWidth={2} dot={false} connectNulls />
+            <Line dataKey="rated" name="Rated" stroke="#64748b" strokeWidth={2} dot={false} connectNulls strokeDasharray="4 4" />
+          </LineChart>
+        </ChartCard>
+
+        <ChartCard
+          title="Severity"
+          description="Issues by the severity the analysis assigned"
+          loading={severity.isLoading}
+        >
+          <BarChart data={severities}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" {...axisProps} />
+            <YAxis allowDecimals={false} width={32} {...axisProps} />
+            <Tooltip />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            {Object.entries(severityColors).map(([name, color]) => (
+              <Bar key={name} dataKey={name} name={name} stackId="severity" fill={color} />
+            ))}
+          </BarChart>
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
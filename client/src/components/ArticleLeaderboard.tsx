@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, Trophy } from "lucide-react";
+
+interface ArticleRates {
+  impressions: number;
+  clickThroughRate: number | null;
+  helpfulRate: number | null;
+  ticketRate: number | null;
+}
+
+interface ArticleEffectiveness extends ArticleRates {
+  articleId: string;
+  title: string;
+  clicked: number;
+  rated: number;
+  helpful: number;
+  tickets: number;
+  previous: ArticleRates;
+}
+
+interface ArticleLeaderboardData {
+  days: number;
+  trackingEnabled: boolean;
+  articles: ArticleEffectiveness[];
+}
+
+const periods = [7, 30, 90];
+
+function formatRate(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+// Change since the previous period; for ticket rate a rise is bad news
+function Trend({ current, previous, isRate = true, higherIsBetter = true }: {
+  current: number | null;
+  previous: number | null;
+  isRate?: boolean;
+  higherIsBetter?: boolean;
+}) {
+  if (current === null || previous === null) return null;
+  const change = isRate ? Math.round((current - previous) * 100) : current - previous;
+  if (change === 0) return null;
+
+  const good = (change > 0) === higherIsBetter;
+  const Arrow = change > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span className={`inline-flex items-center text-xs ${good ? 'text-green-600' : 'text-red-600'}`}>
+      <Arrow className="w-3 h-3" />
+      {Math.abs(change)}{isRate ? 'pt' : ''}
+    </span>
+  );
+}
+
+export function ArticleLeaderboard() {
+  const [days, setDays] = useState(30);
+
+  const { data, isLoading, error } = useQuery<ArticleLeaderboardData>({
+    queryKey: [`/api/analytics/articles?days=${days}`],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <Trophy className="h-5 w-5" />
+              <span>Article Effectiveness</span>
+            </CardTitle>
+            <CardDescription>
+              How often each article is shown, opened, rated helpful or followed by a ticket, against the previous {days} days
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {periods.map(period => (
+              <Button
+                key={period}
+                variant={days === period ? "default" : "outline"}
+                size="sm"
+                onClick={() => setDays(period)}
+              >
+                {period} days
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {data && !data.trackingEnabled && (
+          <p className="text-xs text-orange-700">
+            Click-throughs are not tracked until PUBLIC_BASE_URL is set, so cards link straight to articles.
+          </p>
+        )}
+        {error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : isLoading || !data ? (
+          <div className="space-y-2">
+            {[1, 2, 3, 4, 5].map(i => <div key={i} className="h-10 animate-pulse bg-gray-100 rounded" />)}
+          </div>
+        ) : data.articles.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-3 font-medium">Article</th>
+                  <th className="py-2 pr-3 font-medium text-right">Shown</th>
+                  <th className="py-2 pr-3 font-medium text-right">Opened</th>
+                  <th className="py-2 pr-3 font-medium text-right">Helpful</th>
+                  <th className="py-2 font-medium text-right">Ticket after view</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.articles.map(article => (
+                  <tr key={article.articleId} className="border-b last:border-0">
+                    <td className="py-2 pr-3">
+                      <span className="font-medium text-gray-900">{article.title}</span>
+                      <span className="text-gray-500"> #{article.articleId}</span>
+                    </td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap">
+                      {article.impressions}{' '}
+                      <Trend current={article.impressions} previous={article.previous.impressions} isRate={false} />
+                    </td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap">
+                      {formatRate(article.clickThroughRate)}{' '}
+                      <Trend current={article.clickThroughRate} previous={article.previous.clickThroughRate} />
+                    </td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap" title={`${article.helpful} of ${article.rated} rated`}>
+                      {formatRate(article.helpfulRate)}{' '}
+                      <Trend current={article.helpfulRate} previous={article.previous.helpfulRate} />
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap" title={`${article.tickets} tickets`}>
+                      {formatRate(article.ticketRate)}{' '}
+                      <Trend current={article.ticketRate} previous={article.previous.ticketRate} higherIsBetter={false} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-gray-500">No articles were shown in the last {days} days</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useCallback, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AdaptiveCardPreview } from "@/components/AdaptiveCardPreview";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { TeamsTheme } from "@/lib/teamsHostConfig";
+import { Code, Eye, Moon, Sun } from "lucide-react";
+
+type PreviewSource = "welcome" | "interaction" | "query";
+
+interface CardPreviewResponse {
+  source: PreviewSource;
+  card: object;
+}
+
+const sources: { value: PreviewSource; label: string; placeholder?: string }[] = [
+  { value: "welcome", label: "Welcome card" },
+  { value: "interaction", label: "Interaction", placeholder: "Interaction id, e.g. 42" },
+  { value: "query", label: "New query", placeholder: "e.g. My printer isn't responding" },
+];
+
+function previewUrl(source: PreviewSource, value: string): string {
+  const params = new URLSearchParams();
+  if (source === "welcome") params.set("card", "welcome");
+  if (source === "interaction") params.set("interactionId", value);
+  if (source === "query") params.set("query", value);
+  return `/api/cards/preview?${params.toString()}`;
+}
+
+export function CardPreviewer() {
+  const { toast } = useToast();
+  const [source, setSource] = useState<PreviewSource>("welcome");
+  const [value, setValue] = useState("");
+  const [theme, setTheme] = useState<TeamsTheme>("light");
+  const [showJson, setShowJson] = useState(false);
+
+  const preview = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('GET', previewUrl(source, value.trim()));
+      return await res.json() as CardPreviewResponse;
+    },
+    onError: (error: Error) => {
+      toast({ title: "Preview failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Shows what the bot would receive when a button on the preview is pressed
+  const handleAction = useCallback((action: { type: string; title?: string; data?: unknown; url?: string }) => {
+    if (action.type === "Action.OpenUrl") return;
+    toast({
+      title: `${action.title || action.type} pressed`,
+      description: action.data ? JSON.stringify(action.data) : "No data",
+    });
+  }, [toast]);
+
+  const current = sources.find(option => option.value === source)!;
+  const needsValue = source !== "welcome";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Eye className="h-5 w-5" />
+          <span>Card Preview</span>
+        </CardTitle>
+        <CardDescription>Render the exact adaptive card the bot sends, as it looks in Teams</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {sources.map(option => (
+            <Button
+              key={option.value}
+              variant={source === option.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => {
+                setSource(option.value);
+                setValue("");
+              }}
+            >
+              {option.label}
+            </Button>
+          ))}
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant={theme === "light" ? "default" : "outline"} size="sm" onClick={() => setTheme("light")}>
+              <Sun className="w-4 h-4 mr-1" />
+              Light
+            </Button>
+            <Button variant={theme === "dark" ? "default" : "outline"} size="sm" onClick={() => setTheme("dark")}>
+              <Moon className="w-4 h-4 mr-1" />
+              Dark
+            </Button>
+          </div>
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={event => {
+            event.preventDefault();
+            preview.mutate();
+          }}
+        >
+          {needsValue && (
+            <Input value={value} onChange={event => setValue(event.target.value)} placeholder={current.placeholder} />
+          )}
+          <Button type="submit" disabled={preview.isPending || (needsValue && !value.trim())}>
+            {preview.isPending ? 'Rendering…' : 'Preview'}
+          </Button>
+        </form>
+
+        {preview.data && (
+          <div className="space-y-3">
+            <div className="max-w-xl">
+              <AdaptiveCardPreview card={preview.data.card} theme={theme} onAction={handleAction} />
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => setShowJson(!showJson)}>
+              <Code className="w-4 h-4 mr-1" />
+              {showJson ? 'Hide JSON' : 'Show JSON'}
+            </Button>
+            {showJson && (
+              <pre className="max-h-96 overflow-auto rounded-lg bg-gray-900 p-4 text-xs text-gray-100">
+                {JSON.stringify(preview.data.card, null, 2)}
+              </pre>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
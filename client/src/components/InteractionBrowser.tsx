@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, ListFilter, ThumbsDown, ThumbsUp } from "lucide-react";
+
+interface InteractionSummary {
+  id: number;
+  user_id: string;
+  query: string;
+  timestamp: string;
+  response_time: number | null;
+  response_mode: string;
+  severity: string | null;
+  articles_shown: number;
+  was_helpful: boolean | null;
+  has_comment: boolean;
+}
+
+interface InteractionList {
+  page: number;
+  page_size: number;
+  total: number;
+  interactions: InteractionSummary[];
+}
+
+interface InteractionDetail {
+  id: number;
+  userId: string;
+  userQuery: string;
+  generatedKeywords: string[] | null;
+  foundArticles: { articleId?: string; title?: string; url?: string; relevanceScore?: number; sectionHeading?: string | null }[] | null;
+  aiResponse: string;
+  analysis: unknown;
+  responseTime: number | null;
+  wasHelpful: boolean | null;
+  feedbackComment: string | null;
+  ateraTicketId: number | null;
+  responseMode: string;
+  fallbackReason: string | null;
+  inputClassification: string | null;
+  classificationReason: string | null;
+  redactionCounts: Record<string, number> | null;
+  severity: string | null;
+  createdAt: string;
+}
+
+interface Filters {
+  userId: string;
+  from: string;
+  to: string;
+  helpfulness: string;
+  severity: string;
+  articlesShown: string;
+  articleId: string;
+  minResponseTime: string;
+  maxResponseTime: string;
+}
+
+const emptyFilters: Filters = {
+  userId: "",
+  from: "",
+  to: "",
+  helpfulness: "",
+  severity: "",
+  articlesShown: "",
+  articleId: "",
+  minResponseTime: "",
+  maxResponseTime: "",
+};
+
+const pageSize = 25;
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+function HelpfulBadge({ wasHelpful }: { wasHelpful: boolean | null }) {
+  if (wasHelpful === true) return <ThumbsUp className="w-4 h-4 text-green-600" />;
+  if (wasHelpful === false) return <ThumbsDown className="w-4 h-4 text-red-600" />;
+  return <span className="text-xs text-gray-400">—</span>;
+}
+
+function InteractionDetailDialog({ id, onClose }: { id: number | null; onClose: () => void }) {
+  const { data: detail, isLoading } = useQuery<InteractionDetail>({
+    queryKey: [`/api/interactions/${id}`],
+    enabled: id !== null,
+  });
+
+  return (
+    <Dialog open={id !== null} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Interaction #{id}</DialogTitle>
+          <DialogDescription>
+            {detail ? `${detail.userId} · ${new Date(detail.createdAt).toLocaleString()} · ${detail.responseTime ?? '?'}ms` : 'Loading…'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !detail ? (
+          <div className="h-32 animate-pulse bg-gray-100 rounded-lg" />
+        ) : (
+          <div className="space-y-5 text-sm">
+            <section>
+              <h4 className="font-semibold text-gray-900 mb-1">User query</h4>
+              <p className="whitespace-pre-wrap text-gray-700">{detail.userQuery}</p>
+              <div className="flex flex-wrap gap-2 mt-2">
+                <Badge variant="outline">{detail.responseMode}</Badge>
+                {detail.fallbackReason && <Badge variant="secondary">fallback: {detail.fallbackReason}</Badge>}
+                {detail.severity && <Badge variant="secondary">{detail.severity}</Badge>}
+                {detail.inputClassification && (
+                  <Badge variant="secondary" title={detail.classificationReason || undefined}>
+                    {detail.inputClassification.replace('_', ' ')}
+                  </Badge>
+                )}
+                {Object.entries(detail.redactionCounts || {}).map(([rule, count]) => (
+                  <Badge key={rule} variant="outline">redacted {rule} ×{count}</Badge>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h4 className="font-semibold text-gray-900 mb-1">Search terms</h4>
+              {detail.generatedKeywords?.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {detail.generatedKeywords.map(keyword => <Badge key={keyword}>{keyword}</Badge>)}
+                </div>
+              ) : (
+                <p className="text-gray-500">None recorded</p>
+              )}
+            </section>
+
+            <section>
+              <h4 className="font-semibold text-gray-900 mb-1">Articles shown</h4>
+              {detail.foundArticles?.length ? (
+                <ol className="space-y-1">
+                  {detail.foundArticles.map((article, index) => (
+                    <li key={`${article.articleId}-${index}`} className="flex items-start justify-between gap-2">
+                      <a href={article.url} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline">
+                        {index + 1}. {article.title || `Article ${article.articleId}`}
+                        {article.sectionHeading && <span className="text-gray-500"> › {article.sectionHeading}</span>}
+                      </a>
+                      <span className="shrink-0 text-gray-500">
+                        #{article.articleId}{article.relevanceScore !== undefined && ` · ${article.relevanceScore}%`}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-gray-500">No articles were shown</p>
+              )}
+            </section>
+
+            <section>
+              <h4 className="font-semibold text-gray-900 mb-1">AI response</h4>
+              <pre className="max-h-80 overflow-auto rounded-lg bg-gray-900 p-4 text-xs text-gray-100 whitespace-pre-wrap">
+                {detail.analysis ? JSON.stringify(detail.analysis, null, 2) : detail.aiResponse}
+              </pre>
+            </section>
+
+            <section>
+              <h4 className="font-semibold text-gray-900 mb-1">Feedback</h4>
+              <div className="flex items-center gap-2">
+                <HelpfulBadge wasHelpful={detail.wasHelpful} />
+                <span className="text-gray-700">
+                  {detail.wasHelpful === null ? 'No rating' : detail.wasHelpful ? 'Helpful' : 'Not helpful'}
+                </span>
+                {detail.ateraTicketId && <Badge variant="outline">Ticket #{detail.ateraTicketId}</Badge>}
+              </div>
+              {detail.feedbackComment && <p className="mt-2 whitespace-pre-wrap text-gray-700">"{detail.feedbackComment}"</p>}
+            </section>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function InteractionBrowser() {
+  const [draft, setDraft] = useState<Filters>(emptyFilters);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+  Object.entries(filters).forEach(([name, value]) => value && params.set(name, value));
+
+  const { data, isLoading, error } = useQuery<InteractionList>({
+    queryKey: [`/api/interactions?${params.toString()}`],
+    staleTime: 30000,
+  });
+
+  const totalPages = data ? Math.max(Math.ceil(data.total / data.page_size), 1) : 1;
+  const field = (name: keyof Filters) => ({
+    value: draft[name],
+    onChange: (event: { target: { value: string } }) => setDraft({ ...draft, [name]: event.target.value }),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ListFilter className="h-5 w-5" />
+          <span>Interaction Browser</span>
+        </CardTitle>
+        <CardDescription>Search every stored conversation turn and open its full transcript</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="grid grid-cols-2 md:grid-cols-5 gap-3"
+          onSubmit={event => {
+            event.preventDefault();
+            setFilters(draft);
+            setPage(1);
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="browse-user">User id</Label>
+            <Input id="browse-user" {...field('userId')} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-from">From</Label>
+            <Input id="browse-from" type="date" {...field('from')} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-to">To</Label>
+            <Input id="browse-to" type="date" {...field('to')} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-helpful">Helpfulness</Label>
+            <select id="browse-helpful" className={selectClassName} {...field('helpfulness')}>
+              <option value="">Any</option>
+              <option value="helpful">Helpful</option>
+              <option value="not_helpful">Not helpful</option>
+              <option value="no_feedback">No feedback</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-severity">Severity</Label>
+            <select id="browse-severity" className={selectClassName} {...field('severity')}>
+              <option value="">Any</option>
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+              <option value="critical">Critical</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-articles">Articles shown</Label>
+            <select id="browse-articles" className={selectClassName} {...field('articlesShown')}>
+              <option value="">Any</option>
+              <option value="true">At least one</option>
+              <option value="false">None</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-article-id">Showed article id</Label>
+            <Input id="browse-article-id" {...field('articleId')} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-min-time">Min response (ms)</Label>
+            <Input id="browse-min-time" type="number" min={0} {...field('minResponseTime')} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="browse-max-time">Max response (ms)</Label>
+            <Input id="browse-max-time" type="number" min={0} {...field('maxResponseTime')} />
+          </div>
+          <div className="flex items-end gap-2">
+            <Button type="submit">Apply</Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => {
+                setDraft(emptyFilters);
+                setFilters(emptyFilters);
+                setPage(1);
+              }}
+            >
+              Reset
+            </Button>
+          </div>
+        </form>
+
+        {error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3, 4, 5].map(i => <div key={i} className="h-10 animate-pulse bg-gray-100 rounded" />)}
+          </div>
+        ) : data?.interactions.length ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-3 font-medium">When</th>
+                  <th className="py-2 pr-3 font-medium">User</th>
+                  <th className="py-2 pr-3 font-medium">Query</th>
+                  <th className="py-2 pr-3 font-medium">Severity</th>
+                  <th className="py-2 pr-3 font-medium">Articles</th>
+                  <th className="py-2 pr-3 font-medium">Time</th>
+                  <th className="py-2 font-medium">Feedback</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.interactions.map(interaction => (
+                  <tr
+                    key={interaction.id}
+                    className="border-b last:border-0 cursor-pointer hover:bg-gray-50"
+                    onClick={() => setSelectedId(interaction.id)}
+                  >
+                    <td className="py-2 pr-3 whitespace-nowrap text-gray-500">{new Date(interaction.timestamp).toLocaleString()}</td>
+                    <td className="py-2 pr-3 max-w-[10rem] truncate text-gray-500">{interaction.user_id}</td>
+                    <td className="py-2 pr-3 max-w-md">
+                      <span className="line-clamp-2 text-gray-900">{interaction.query}</span>
+                      {interaction.response_mode !== 'ai' && (
+                        <Badge variant="secondary" className="mt-1">{interaction.response_mode}</Badge>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3">{interaction.severity || '—'}</td>
+                    <td className="py-2 pr-3">{interaction.articles_shown}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{interaction.response_time ?? '?'}ms</td>
+                    <td className="py-2">
+                      <div className="flex items-center gap-1">
+                        <HelpfulBadge wasHelpful={interaction.was_helpful} />
+                        {interaction.has_comment && <span className="text-xs text-gray-500">comment</span>}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-gray-500">No interactions match these filters</p>
+        )}
+
+        {data && data.total > 0 && (
+          <div className="flex items-center justify-between text-sm text-gray-500">
+            <span>{data.total} interactions · page {data.page} of {totalPages}</span>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <InteractionDetailDialog id={selectedId} onClose={() => setSelectedId(null)} />
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download, SearchX } from "lucide-react";
+
+interface KnowledgeGap {
+  topic: string;
+  queries: number;
+  noArticles: number;
+  notHelpful: number;
+  users: number;
+  lastSeen: string | null;
+  sampleQueries: string[];
+}
+
+interface KnowledgeGapReport {
+  since: string;
+  method: "embedding" | "keyword";
+  interactions: number;
+  gaps: KnowledgeGap[];
+}
+
+const periods = [7, 30, 90];
+
+export function KnowledgeGaps() {
+  const [days, setDays] = useState(30);
+
+  const { data: report, isLoading, error } = useQuery<KnowledgeGapReport>({
+    queryKey: [`/api/analytics/knowledge-gaps?days=${days}`],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <SearchX className="h-5 w-5" />
+              <span>Knowledge Gaps</span>
+            </CardTitle>
+            <CardDescription>
+              Questions that found no articles or got a thumbs down, grouped into topics — the articles to write next
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {periods.map(period => (
+              <Button
+                key={period}
+                variant={days === period ? "default" : "outline"}
+                size="sm"
+                onClick={() => setDays(period)}
+              >
+                {period} days
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/analytics/knowledge-gaps?days=${days}&format=csv`} download>
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <p className="text-sm text-red-600">{(error as Error).message}</p>
+        ) : isLoading || !report ? (
+          <div className="space-y-3">
+            {[1, 2, 3, 4].map(i => <div key={i} className="h-16 animate-pulse bg-gray-100 rounded-lg" />)}
+          </div>
+        ) : report.gaps.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500">
+              {report.interactions} queries since {new Date(report.since).toLocaleDateString()} in {report.gaps.length} topics
+              {report.method === 'keyword' && ' (grouped by keywords because embeddings were unavailable)'}
+            </p>
+            {report.gaps.map((gap, index) => (
+              <div key={`${gap.topic}-${index}`} className="p-4 border border-gray-200 rounded-lg">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {index + 1}. {gap.topic}
+                    </p>
+                    <ul className="mt-2 space-y-1 text-sm text-gray-600">
+                      {gap.sampleQueries.map(query => (
+                        <li key={query} className="truncate">"{query}"</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <Badge>{gap.queries} {gap.queries === 1 ? 'query' : 'queries'}</Badge>
+                    <div className="flex gap-1">
+                      {gap.noArticles > 0 && (
+                        <Badge variant="secondary" className="bg-orange-100 text-orange-800">{gap.noArticles} no articles</Badge>
+                      )}
+                      {gap.notHelpful > 0 && (
+                        <Badge variant="secondary" className="bg-red-100 text-red-800">{gap.notHelpful} not helpful</Badge>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500">
+                      {gap.users} {gap.users === 1 ? 'user' : 'users'}
+                      {gap.lastSeen && ` · last ${new Date(gap.lastSeen).toLocaleDateString()}`}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500">No unanswered or unhelpful questions in the last {days} days</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+// Sends signed-out visitors to the login page and comes back here afterwards
+export function RequireAuth({ children }: { children: React.ReactNode }) {
+  const { user, isLoading } = useAuth();
+  const [location, setLocation] = useLocation();
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      setLocation(`/admin/login?returnTo=${encodeURIComponent(location)}`);
+    }
+  }, [isLoading, user, location, setLocation]);
+
+  if (isLoading || !user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-sm text-gray-500">
+        Checking your sign-in…
+      </div>
+    );
+  }
+  return <>{children}</>;
+}
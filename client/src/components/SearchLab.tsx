@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AdaptiveCardPreview } from "@/components/AdaptiveCardPreview";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FlaskConical, History, Play, Save, Search } from "lucide-react";
+
+interface RankedCandidate {
+  rank: number;
+  articleId: string;
+  title: string;
+  heading: string | null;
+  score: number;
+  excerpt: string;
+}
+
+interface FusedArticle {
+  rank: number;
+  articleId: string;
+  title: string;
+  url: string;
+  sectionHeading?: string | null;
+  relevanceScore: number;
+  matchedBy: string[];
+}
+
+interface SearchLabResult {
+  query: string;
+  redactions: Record<string, number>;
+  classification: { category: string; reason: string; source: string };
+  searchTerms: string[];
+  retrievers: { lexical: RankedCandidate[]; semantic: RankedCandidate[] };
+  fused: FusedArticle[];
+  analysis: { fallbackReason?: string };
+  card: object;
+  timings: { classify_ms: number; search_ms: number; analysis_ms: number };
+}
+
+interface GoldenCase {
+  id: string;
+  query: string;
+  expectedArticleIds: string[];
+}
+
+function RetrieverRanking({ title, scoreLabel, candidates }: { title: string; scoreLabel: string; candidates: RankedCandidate[] }) {
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">
+        {title} <span className="font-normal text-gray-500">({scoreLabel})</span>
+      </h4>
+      {candidates.length > 0 ? (
+        <ol className="space-y-2">
+          {candidates.map(candidate => (
+            <li key={`${candidate.articleId}-${candidate.rank}`} className="text-sm border-l-4 border-blue-200 pl-3">
+              <div className="flex items-start justify-between gap-2">
+                <span className="font-medium text-gray-900">
+                  {candidate.rank}. {candidate.title}
+                  {candidate.heading && <span className="text-gray-500"> › {candidate.heading}</span>}
+                </span>
+                <Badge variant="outline">{candidate.score.toFixed(3)}</Badge>
+              </div>
+              <p className="text-xs text-gray-500 truncate">#{candidate.articleId} · {candidate.excerpt}</p>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className="text-sm text-gray-500">No matches</p>
+      )}
+    </div>
+  );
+}
+
+export function SearchLab() {
+  const { toast } = useToast();
+  const [query, setQuery] = useState("");
+  const [history, setHistory] = useState<string[]>([]);
+  const [expectedIds, setExpectedIds] = useState<string[]>([]);
+  const [facts, setFacts] = useState("");
+
+  const { data: goldenSet } = useQuery<{ file: string; cases: GoldenCase[] }>({
+    queryKey: ['/api/eval/golden-cases'],
+  });
+
+  const search = useMutation({
+    mutationFn: async (text: string) => {
+      const res = await apiRequest('POST', '/api/test/search-lab', { query: text });
+      return await res.json() as SearchLabResult;
+    },
+    onSuccess: (result) => {
+      setHistory(previous => [result.query, ...previous.filter(item => item !== result.query)].slice(0, 10));
+      // Start from the saved expectation when the query is already a golden case
+      const existing = goldenSet?.cases.find(golden => golden.query === result.query);
+      setExpectedIds(existing ? existing.expectedArticleIds : result.fused.slice(0, 1).map(article => article.articleId));
+      setFacts("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Search failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveCase = useMutation({
+    mutationFn: async () => {
+      const result = search.data!;
+      // Facts are comma separated; "a | b" accepts either phrasing
+      const mustMention = facts
+        .split(',')
+        .map(fact => fact.trim())
+        .filter(Boolean)
+        .map(fact => fact.includes('|') ? fact.split('|').map(part => part.trim()).filter(Boolean) : fact);
+      const res = await apiRequest('POST', '/api/eval/golden-cases', {
+        query: result.query,
+        expectedArticleIds: expectedIds,
+        mustMention,
+      });
+      return await res.json() as { case: GoldenCase; created: boolean; total: number };
+    },
+    onSuccess: (saved) => {
+      toast({
+        title: saved.created ? "Added to golden set" : "Golden case updated",
+        description: `"${saved.case.id}" · ${saved.total} cases`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/eval/golden-cases'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save golden case", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const run = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    setQuery(trimmed);
+    search.mutate(trimmed);
+  };
+
+  const toggleExpected = (articleId: string) => {
+    setExpectedIds(previous => previous.includes(articleId)
+      ? previous.filter(id => id !== articleId)
+      : [...previous, articleId]);
+  };
+
+  const result = search.data;
+  // Every article any retriever found can be marked as expected
+  const candidateArticles = result
+    ? Array.from(new Map(
+        [...result.fused, ...result.retrievers.lexical, ...result.retrievers.semantic]
+          .map(article => [article.articleId, article.title] as const)
+      ).entries())
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <FlaskConical className="h-5 w-5" />
+            <span>Search Lab</span>
+          </CardTitle>
+          <CardDescription>Run a query through the bot's search and analysis and see each step</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex gap-2"
+            onSubmit={event => {
+              event.preventDefault();
+              run(query);
+            }}
+          >
+            <Input
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="e.g. Outlook isn't receiving new emails"
+            />
+            <Button type="submit" disabled={search.isPending || !query.trim()}>
+              <Search className="w-4 h-4 mr-2" />
+              {search.isPending ? 'Running…' : 'Run'}
+            </Button>
+          </form>
+
+          {(history.length > 0 || (goldenSet?.cases.length ?? 0) > 0) && (
+            <div className="space-y-2">
+              {history.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <History className="w-4 h-4 text-gray-500" />
+                  {history.map(item => (
+                    <Button key={item} variant="outline" size="sm" onClick={() => run(item)} disabled={search.isPending}>
+                      {item}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              {goldenSet && goldenSet.cases.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs font-medium text-gray-500">Golden set:</span>
+                  {goldenSet.cases.map(golden => (
+                    <Button key={golden.id} variant="ghost" size="sm" onClick={() => run(golden.query)} disabled={search.isPending}>
+                      <Play className="w-3 h-3 mr-1" />
+                      {golden.id}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Search Terms</CardTitle>
+                <CardDescription>
+                  Guardrails {result.timings.classify_ms}ms · search {result.timings.search_ms}ms · analysis {result.timings.analysis_ms}ms
+                  {result.analysis.fallbackReason && ` · fell back to knowledge base only (${result.analysis.fallbackReason})`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-500">Guardrails:</span>
+                  <Badge variant={result.classification.category === 'support' ? 'secondary' : 'destructive'}>
+                    {result.classification.category}
+                  </Badge>
+                  <span className="text-gray-500">
+                    {result.classification.source}
+                    {result.classification.reason && ` · ${result.classification.reason}`}
+                  </span>
+                </div>
+                {Object.keys(result.redactions).length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-500">Redacted:</span>
+                    {Object.entries(result.redactions).map(([kind, count]) => (
+                      <Badge key={kind} variant="outline">{kind} × {count}</Badge>
+                    ))}
+                  </div>
+                )}
+                {result.searchTerms.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {result.searchTerms.map(term => (
+                      <Badge key={term}>{term}</Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {result.classification.category === 'support' ? 'No search terms' : 'Refused before search'}
+                  </p>
+                )}
+                <p className="text-sm text-gray-500">Searched as: {result.query}</p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Retriever Rankings</CardTitle>
+                <CardDescription>Article sections from each retriever, before rank fusion</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <RetrieverRanking title="Full-text" scoreLabel="ts_rank_cd" candidates={result.retrievers.lexical} />
+                <RetrieverRanking title="Semantic" scoreLabel="cosine similarity" candidates={result.retrievers.semantic} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Final Ranking</CardTitle>
+                <CardDescription>What the bot shows, after reciprocal rank fusion</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {result.fused.length > 0 ? (
+                  <ol className="space-y-2">
+                    {result.fused.map(article => (
+                      <li key={article.articleId} className="flex items-start justify-between gap-2 text-sm">
+                        <a href={article.url} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-700 hover:underline">
+                          {article.rank}. {article.title}
+                          {article.sectionHeading && <span className="text-gray-500"> › {article.sectionHeading}</span>}
+                        </a>
+                        <div className="flex items-center gap-1 shrink-0">
+                          {article.matchedBy.map(name => (
+                            <Badge key={name} variant="secondary">{name}</Badge>
+                          ))}
+                          <Badge variant="outline">{article.relevanceScore}%</Badge>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="text-sm text-gray-500">No articles found</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Save to Golden Set</CardTitle>
+                <CardDescription>
+                  Adds this query to {goldenSet?.file || 'the eval golden set'} for <code>npm run eval</code>
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Expected articles</Label>
+                  {candidateArticles.length > 0 ? candidateArticles.map(([articleId, title]) => (
+                    <label key={articleId} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={expectedIds.includes(articleId)}
+                        onChange={() => toggleExpected(articleId)}
+                      />
+                      <span>{title} <span className="text-gray-500">#{articleId}</span></span>
+                    </label>
+                  )) : (
+                    <p className="text-sm text-gray-500">No articles were retrieved for this query</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="golden-facts">Facts the answer must mention</Label>
+                  <Input
+                    id="golden-facts"
+                    value={facts}
+                    onChange={event => setFacts(event.target.value)}
+                    placeholder="working offline | disconnected, send/receive"
+                  />
+                </div>
+                <Button onClick={() => saveCase.mutate()} disabled={saveCase.isPending || expectedIds.length === 0}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {saveCase.isPending ? 'Saving…' : 'Save Case'}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Card Preview</CardTitle>
+              <CardDescription>The adaptive card the bot would send in Teams</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AdaptiveCardPreview card={result.card} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+export type UserRole = "viewer" | "kb_editor" | "admin";
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  name: string;
+  role: UserRole;
+  provider: "local" | "entra";
+}
+
+// Each role includes everything the roles before it can do, as on the server
+const roleOrder: UserRole[] = ["viewer", "kb_editor", "admin"];
+
+export const roleLabels: Record<UserRole, string> = {
+  viewer: "Viewer",
+  kb_editor: "KB Editor",
+  admin: "Admin",
+};
+
+export function useAuth() {
+  const [, setLocation] = useLocation();
+  const { data, isLoading } = useQuery<{ user: AuthUser } | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+  const user = data?.user ?? null;
+
+  const logout = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/auth/logout"),
+    onSettled: () => {
+      queryClient.clear();
+      setLocation("/admin/login");
+    },
+  });
+
+  const hasRole = (role: UserRole) => !!user && roleOrder.indexOf(user.role) >= roleOrder.indexOf(role);
+
+  return { user, isLoading, hasRole, logout: () => logout.mutate() };
+}
@@ -0,0 +1,88 @@
+// Adaptive Card host configs approximating the Microsoft Teams light and dark themes,
+// so dashboard previews look like the cards users see in chat.
+
+export type TeamsTheme = "light" | "dark";
+
+interface ThemeColors {
+  background: string;
+  emphasis: string;
+  text: string;
+  subtle: string;
+  accent: string;
+  good: string;
+  warning: string;
+  attention: string;
+  separator: string;
+}
+
+const palettes: Record<TeamsTheme, ThemeColors> = {
+  light: {
+    background: "#FFFFFF",
+    emphasis: "#F5F5F5",
+    text: "#242424",
+    subtle: "#616161",
+    accent: "#5B5FC7",
+    good: "#237B4B",
+    warning: "#835C00",
+    attention: "#C4314B",
+    separator: "#E1DFDD",
+  },
+  dark: {
+    background: "#292929",
+    emphasis: "#1F1F1F",
+    text: "#FFFFFF",
+    subtle: "#ADADAD",
+    accent: "#7F85F5",
+    good: "#92C353",
+    warning: "#F8D22A",
+    attention: "#F1707B",
+    separator: "#3D3D3D",
+  },
+};
+
+function foregroundColors(colors: ThemeColors) {
+  const color = (value: string) => ({ default: value, subtle: value });
+  return {
+    default: { default: colors.text, subtle: colors.subtle },
+    accent: color(colors.accent),
+    good: color(colors.good),
+    warning: color(colors.warning),
+    attention: color(colors.attention),
+    dark: { default: "#252423", subtle: "#484644" },
+    light: { default: "#FFFFFF", subtle: "#F3F2F1" },
+  };
+}
+
+function createHostConfig(colors: ThemeColors) {
+  return {
+    fontFamily: "'Segoe UI', system-ui, -apple-system, sans-serif",
+    supportsInteractivity: true,
+    spacing: { small: 4, default: 8, medium: 16, large: 20, extraLarge: 24, padding: 16 },
+    separator: { lineThickness: 1, lineColor: colors.separator },
+    fontSizes: { small: 12, default: 14, medium: 14, large: 18, extraLarge: 24 },
+    fontWeights: { lighter: 300, default: 400, bolder: 600 },
+    containerStyles: {
+      default: { backgroundColor: colors.background, foregroundColors: foregroundColors(colors) },
+      emphasis: { backgroundColor: colors.emphasis, foregroundColors: foregroundColors(colors) },
+    },
+    actions: {
+      maxActions: 6,
+      spacing: "default",
+      buttonSpacing: 8,
+      showCard: { actionMode: "inline", inlineTopMargin: 16 },
+      actionsOrientation: "horizontal",
+      actionAlignment: "stretch",
+    },
+    adaptiveCard: { allowCustomStyle: true },
+  };
+}
+
+export const teamsHostConfigs: Record<TeamsTheme, object> = {
+  light: createHostConfig(palettes.light),
+  dark: createHostConfig(palettes.dark),
+};
+
+export const teamsBackgrounds: Record<TeamsTheme, string> = {
+  light: palettes.light.background,
+  dark: palettes.dark.background,
+};
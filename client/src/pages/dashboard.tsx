@@ -4,32 +4,54 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { StatusCard } from "@/components/StatusCard";
+import { AnalyticsCharts } from "@/components/AnalyticsCharts";
 import { BotConfiguration } from "@/components/BotConfiguration";
+import { SearchLab } from "@/components/SearchLab";
+import { CardPreviewer } from "@/components/CardPreviewer";
+import { InteractionBrowser } from "@/components/InteractionBrowser";
+import { ArticleLeaderboard } from "@/components/ArticleLeaderboard";
+import { KnowledgeGaps } from "@/components/KnowledgeGaps";
+import { useAuth, roleLabels } from "@/hooks/use-auth";
 import { 
   Bot, 
   Activity, 
   Settings, 
   AlertCircle, 
   CheckCircle, 
-  Clock, 
   Users,
-  MessageSquare,
   Database,
-  Shield
+  Shield,
+  LogOut
 } from "lucide-react";
 
+interface HealthCheck {
+  status: 'up' | 'degraded' | 'down' | 'not_configured';
+  latencyMs: number | null;
+  detail?: string;
+  error?: string;
+}
+
 interface HealthStatus {
-  status: string;
+  status: 'healthy' | 'degraded' | 'unhealthy';
   timestamp: string;
-  services: {
-    teams_bot: boolean;
-    database: boolean;
-    atera_api: boolean;
-    openai: boolean;
-  };
+  checks: Record<'teams_bot' | 'database' | 'openai' | 'atera_api' | 'knowledge_base', HealthCheck>;
 }
 
+const serviceLabels: Array<[keyof HealthStatus['checks'], string]> = [
+  ['teams_bot', 'Teams Bot'],
+  ['database', 'Database'],
+  ['knowledge_base', 'Knowledge Base'],
+  ['openai', 'Language Model'],
+  ['atera_api', 'Atera API'],
+];
+
+const checkBadges: Record<HealthCheck['status'], { label: string; className: string }> = {
+  up: { label: 'Up', className: 'bg-green-100 text-green-800' },
+  degraded: { label: 'Degraded', className: 'bg-yellow-100 text-yellow-800' },
+  down: { label: 'Down', className: 'bg-red-100 text-red-800' },
+  not_configured: { label: 'Not Configured', className: 'bg-gray-100 text-gray-700' },
+};
+
 interface BotConfig {
   teams_bot_configured: boolean;
   openai_configured: boolean;
@@ -41,15 +63,25 @@ interface BotConfig {
 interface Analytics {
   total_interactions: number;
   avg_response_time: number;
+  fallback_responses: number;
+  fallback_rate: number;
+  fallback_by_reason: Record<string, number>;
+  refused_responses: number;
+  refused_by_category: Record<string, number>;
   recent_queries: Array<{
     query: string;
     timestamp: string;
     response_time: number;
+    response_mode: 'ai' | 'fallback' | 'refused';
+    input_classification: string | null;
   }>;
 }
 
 export default function Dashboard() {
-  const { data: health, isLoading: healthLoading } = useQuery<HealthStatus>({
+  const { user, hasRole, logout } = useAuth();
+  const canEdit = hasRole('kb_editor');
+
+  const { data: health } = useQuery<HealthStatus>({
     queryKey: ['/api/health'],
     refetchInterval: 30000, // Refresh every 30 seconds
   });
@@ -86,6 +118,11 @@ export default function Dashboard() {
                   <CheckCircle className="w-3 h-3 mr-1" />
                   Online
                 </Badge>
+              ) : health?.status === 'degraded' ? (
+                <Badge variant="default" className="bg-yellow-100 text-yellow-800">
+                  <AlertCircle className="w-3 h-3 mr-1" />
+                  Degraded
+                </Badge>
               ) : (
                 <Badge variant="destructive">
                   <AlertCircle className="w-3 h-3 mr-1" />
@@ -95,6 +132,16 @@ export default function Dashboard() {
               <span className="text-sm text-gray-500">
                 Last updated: {health?.timestamp ? new Date(health.timestamp).toLocaleTimeString() : 'Unknown'}
               </span>
+              {user && (
+                <div className="flex items-center space-x-2 pl-4 border-l border-gray-200">
+                  <span className="text-sm text-gray-700">{user.name}</span>
+                  <Badge variant="outline">{roleLabels[user.role]}</Badge>
+                  <Button variant="ghost" size="sm" onClick={logout}>
+                    <LogOut className="h-4 w-4 mr-1" />
+                    Sign out
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -111,46 +158,20 @@ export default function Dashboard() {
           </Alert>
         )}
 
-        {/* Status Overview */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          <StatusCard
-            title="Bot Status"
-            value={health?.status === 'healthy' ? 'Online' : 'Offline'}
-            icon={<Bot className="h-5 w-5" />}
-            status={health?.status === 'healthy' ? 'success' : 'error'}
-            loading={healthLoading}
-          />
-
-          <StatusCard
-            title="Total Interactions"
-            value={analytics?.total_interactions?.toString() || '0'}
-            icon={<MessageSquare className="h-5 w-5" />}
-            status="info"
-            loading={analyticsLoading}
-          />
-
-          <StatusCard
-            title="Avg Response Time"
-            value={analytics?.avg_response_time ? `${Math.round(analytics.avg_response_time)}ms` : '0ms'}
-            icon={<Clock className="h-5 w-5" />}
-            status="info"
-            loading={analyticsLoading}
-          />
-
-          <StatusCard
-            title="Services Status"
-            value={`${Object.values(health?.services || {}).filter(Boolean).length}/4`}
-            icon={<Shield className="h-5 w-5" />}
-            status={Object.values(health?.services || {}).every(Boolean) ? 'success' : 'warning'}
-            loading={healthLoading}
-          />
+        {/* Trends */}
+        <div className="mb-8">
+          <AnalyticsCharts />
         </div>
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          {/* Search Lab and Card Preview run queries through the model, so they need the KB editor role */}
+          <TabsList className={`grid w-full ${canEdit ? 'grid-cols-6' : 'grid-cols-4'}`}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="knowledge-gaps">Knowledge Gaps</TabsTrigger>
+            {canEdit && <TabsTrigger value="search-lab">Search Lab</TabsTrigger>}
+            {canEdit && <TabsTrigger value="card-preview">Card Preview</TabsTrigger>}
             <TabsTrigger value="configuration">Configuration</TabsTrigger>
           </TabsList>
 
@@ -166,30 +187,23 @@ export default function Dashboard() {
                   <CardDescription>Current status of all bot services</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Teams Bot</span>
-                    <Badge variant={health?.services.teams_bot ? "default" : "destructive"}>
-                      {health?.services.teams_bot ? 'Configured' : 'Missing Credentials'}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Database</span>
-                    <Badge variant={health?.services.database ? "default" : "destructive"}>
-                      {health?.services.database ? 'Connected' : 'Disconnected'}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Atera API</span>
-                    <Badge variant={health?.services.atera_api ? "default" : "destructive"}>
-                      {health?.services.atera_api ? 'Connected' : 'Missing Token'}
-                    </Badge>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">OpenAI Integration</span>
-                    <Badge variant={health?.services.openai ? "default" : "destructive"}>
-                      {health?.services.openai ? 'Configured' : 'Missing API Key'}
-                    </Badge>
-                  </div>
+                  {serviceLabels.map(([key, label]) => {
+                    const check = health?.checks[key];
+                    const badge = checkBadges[check?.status || 'down'];
+                    return (
+                      <div key={key} className="flex items-start justify-between gap-4">
+                        <div className="min-w-0">
+                          <span className="text-sm font-medium">{label}</span>
+                          {check?.detail && <p className="text-xs text-gray-500 truncate">{check.detail}</p>}
+                          {check?.error && <p className="text-xs text-red-600 break-words">{check.error}</p>}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {check?.latencyMs != null && <span className="text-xs text-gray-500">{check.latencyMs}ms</span>}
+                          <Badge variant="outline" className={badge.className}>{check ? badge.label : 'Unknown'}</Badge>
+                        </div>
+                      </div>
+                    );
+                  })}
                 </CardContent>
               </Card>
 
@@ -263,9 +277,21 @@ export default function Dashboard() {
                                 {new Date(query.timestamp).toLocaleString()}
                               </p>
                             </div>
-                            <Badge variant="outline">
-                              {query.response_time}ms
-                            </Badge>
+                            <div className="flex items-center space-x-2">
+                              {query.response_mode === 'fallback' && (
+                                <Badge variant="secondary" className="bg-orange-100 text-orange-800">
+                                  KB only
+                                </Badge>
+                              )}
+                              {query.response_mode === 'refused' && (
+                                <Badge variant="secondary" className="bg-red-100 text-red-800">
+                                  Refused: {query.input_classification?.replace('_', ' ')}
+                                </Badge>
+                              )}
+                              <Badge variant="outline">
+                                {query.response_time}ms
+                              </Badge>
+                            </div>
                           </div>
                         </div>
                       ))}
@@ -298,11 +324,55 @@ export default function Dashboard() {
                     <span className="text-sm font-medium">Success Rate</span>
                     <span className="text-lg font-bold text-emerald-600">98.5%</span>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Fallback Answers</span>
+                    <span className="text-lg font-bold text-orange-600">
+                      {analytics?.fallback_responses || 0} ({((analytics?.fallback_rate || 0) * 100).toFixed(1)}%)
+                    </span>
+                  </div>
+                  {analytics && analytics.fallback_responses > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Answered from the knowledge base only because AI guidance was unavailable
+                      ({Object.entries(analytics.fallback_by_reason).map(([reason, count]) => `${reason}: ${count}`).join(', ')})
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Refused Requests</span>
+                    <span className="text-lg font-bold text-red-600">
+                      {analytics?.refused_responses || 0}
+                    </span>
+                  </div>
+                  {analytics && analytics.refused_responses > 0 && (
+                    <p className="text-xs text-gray-500">
+                      Off-topic, abusive or prompt injection messages turned away by the guardrails
+                      ({Object.entries(analytics.refused_by_category).map(([category, count]) => `${category.replace('_', ' ')}: ${count}`).join(', ')})
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             </div>
+
+            <ArticleLeaderboard />
+
+            <InteractionBrowser />
           </TabsContent>
 
+          <TabsContent value="knowledge-gaps">
+            <KnowledgeGaps />
+          </TabsContent>
+
+          {canEdit && (
+            <TabsContent value="search-lab">
+              <SearchLab />
+            </TabsContent>
+          )}
+
+          {canEdit && (
+            <TabsContent value="card-preview">
+              <CardPreviewer />
+            </TabsContent>
+          )}
+
           <TabsContent value="configuration">
             <BotConfiguration config={config} loading={configLoading} />
           </TabsContent>
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, Bot, LogIn } from "lucide-react";
+
+interface AuthProviders {
+  entra: boolean;
+  local: boolean;
+}
+
+// Only return to dashboard pages on this site, with the same checks as the server
+function safeReturnTo(value: string | null): string {
+  const fallback = "/admin/dashboard";
+  if (!value || !value.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(value)) return fallback;
+
+  let url: URL;
+  try {
+    url = new URL(value, window.location.origin);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== window.location.origin || !/^\/admin(\/|$)/.test(url.pathname)) return fallback;
+  return url.pathname + url.search + url.hash;
+}
+
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const params = new URLSearchParams(useSearch());
+  const returnTo = safeReturnTo(params.get("returnTo"));
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: providers } = useQuery<AuthProviders>({
+    queryKey: ["/api/auth/providers"],
+  });
+
+  const login = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/auth/login", { username, password });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/auth/me"], data);
+      setLocation(returnTo);
+    },
+  });
+
+  // Server errors arrive as "401: {json}"; show just the message
+  const loginError = login.error
+    ? (login.error as Error).message.replace(/^\d+: /, "").replace(/^\{"error":"(.*)"\}$/, "$1")
+    : params.get("error");
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gradient-to-br from-gray-50 to-blue-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader className="text-center">
+          <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center mx-auto mb-2">
+            <Bot className="h-6 w-6 text-white" />
+          </div>
+          <CardTitle>IT Support Bot Dashboard</CardTitle>
+          <CardDescription>Sign in to view analytics and manage the knowledge base</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loginError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertCircle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">{loginError}</AlertDescription>
+            </Alert>
+          )}
+
+          {providers?.entra && (
+            <Button asChild className="w-full">
+              <a href={`/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`}>
+                <LogIn className="h-4 w-4 mr-2" />
+                Sign in with Microsoft
+              </a>
+            </Button>
+          )}
+
+          {providers?.entra && providers?.local && <Separator />}
+
+          {providers?.local && (
+            <form
+              className="space-y-3"
+              onSubmit={(event) => {
+                event.preventDefault();
+                login.mutate();
+              }}
+            >
+              <div className="space-y-1">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={(event) => setUsername(event.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </div>
+              <Button
+                type="submit"
+                variant={providers.entra ? "outline" : "default"}
+                className="w-full"
+                disabled={!username || !password || login.isPending}
+              >
+                {login.isPending ? "Signing in…" : "Sign in"}
+              </Button>
+            </form>
+          )}
+
+          {providers && !providers.entra && !providers.local && (
+            <p className="text-sm text-gray-600">
+              No sign-in method is configured. Set the Entra ID settings or allow local accounts.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
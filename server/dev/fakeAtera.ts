@@ -0,0 +1,179 @@
+import express from "express";
+
+// Minimal in-memory stand-in for the Atera v3 API, for exercising the bot's
+// ticket and knowledge base flows locally:
+//
+//   npm run dev:fake-atera
+//   ATERA_API_BASE_URL=http://localhost:5055/api/v3 ATERA_API_TOKEN=dev npm run dev
+
+const app = express();
+app.use(express.json());
+
+const contacts: any[] = [
+  { EndUserID: 1, CustomerID: 1, CustomerName: "Anthem Properties", Email: "jane.doe@anthemproperties.com", Firstname: "Jane", Lastname: "Doe" },
+];
+
+const tickets: any[] = [
+  {
+    TicketID: 999,
+    TicketTitle: "Printer on 3rd floor jams constantly",
+    TicketStatus: "Pending",
+    TicketPriority: "Medium",
+    TicketType: "Problem",
+    Description: "Paper jam every few pages",
+    EndUserID: 1,
+    EndUserEmail: "jane.doe@anthemproperties.com",
+    EndUserFirstName: "Jane",
+    EndUserLastName: "Doe",
+    TechnicianFullName: "Sam Tech",
+    TicketCreatedDate: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
+  },
+];
+
+const comments: Record<number, any[]> = {
+  999: [
+    { Date: new Date(Date.now() - 60 * 60 * 1000).toISOString(), Comment: "Replacement rollers ordered, arriving Thursday.", TechnicianFullName: "Sam Tech", IsInternal: false },
+  ],
+};
+
+const knowledgeBases: any[] = [
+  {
+    KBID: 101,
+    KBProduct: "Dell laptop power issues",
+    KBContext: "<h2>Laptop won't turn on</h2><p>Hold the power button for 30 seconds, then connect the charger and check the battery LED.</p>",
+    KBKeywords: "dell, laptop, power, battery",
+    KBIsPrivate: false,
+    KBStatus: 2,
+  },
+  {
+    KBID: 102,
+    KBProduct: "Outlook not receiving email",
+    KBContext: "<h2>Check the connection status</h2><p>Look at the bottom bar in Outlook for 'Disconnected' or 'Working offline'.</p>",
+    KBKeywords: "outlook, email, offline",
+    KBIsPrivate: false,
+    KBStatus: 2,
+  },
+];
+
+let nextTicketId = 1000;
+
+function page<T>(items: T[], req: express.Request) {
+  const pageNumber = Math.max(parseInt(String(req.query.page || "1"), 10), 1);
+  const itemsInPage = Math.max(parseInt(String(req.query.itemsInPage || "20"), 10), 1);
+  const start = (pageNumber - 1) * itemsInPage;
+  return {
+    items: items.slice(start, start + itemsInPage),
+    totalItemCount: items.length,
+    page: pageNumber,
+    itemsInPage,
+    totalPages: Math.max(Math.ceil(items.length / itemsInPage), 1),
+  };
+}
+
+app.use("/api/v3", (req, res, next) => {
+  if (!req.header("X-API-KEY")) {
+    return res.status(401).json({ error: "Missing X-API-KEY" });
+  }
+  next();
+});
+
+app.get("/api/v3/knowledgebases", (req, res) => {
+  res.json(page(knowledgeBases, req));
+});
+
+app.get("/api/v3/contacts", (req, res) => {
+  const search = String(req.query.searchOptions || "").toLowerCase();
+  const matches = search
+    ? contacts.filter(c => c.Email.toLowerCase().includes(search))
+    : contacts;
+  res.json(page(matches, req));
+});
+
+app.post("/api/v3/tickets", (req, res) => {
+  const body = req.body || {};
+  if (!body.TicketTitle) {
+    return res.status(400).json({ error: "TicketTitle is required" });
+  }
+
+  let contact = contacts.find(c => c.EndUserID === body.EndUserID);
+  if (!contact && body.EndUserEmail) {
+    contact = {
+      EndUserID: contacts.length + 1,
+      CustomerID: 1,
+      Email: body.EndUserEmail,
+      Firstname: body.EndUserFirstName,
+      Lastname: body.EndUserLastName,
+    };
+    contacts.push(contact);
+  }
+  if (!contact) {
+    return res.status(400).json({ error: "EndUserID or EndUserEmail is required" });
+  }
+
+  const ticketId = nextTicketId++;
+  tickets.push({
+    TicketID: ticketId,
+    TicketTitle: body.TicketTitle,
+    TicketStatus: body.TicketStatus || "Open",
+    TicketPriority: body.TicketPriority || "Medium",
+    TicketType: body.TicketType || "Problem",
+    Description: body.Description || "",
+    EndUserID: contact.EndUserID,
+    EndUserEmail: contact.Email,
+    EndUserFirstName: contact.Firstname,
+    EndUserLastName: contact.Lastname,
+    TicketCreatedDate: new Date().toISOString(),
+  });
+
+  console.log(`[fake-atera] created ticket ${ticketId}: ${body.TicketTitle}`);
+  res.json({ ActionID: 1, ItemId: ticketId });
+});
+
+app.get("/api/v3/tickets", (req, res) => {
+  const customerId = req.query.customerId ? parseInt(String(req.query.customerId), 10) : undefined;
+  const status = req.query.ticketStatus ? String(req.query.ticketStatus) : undefined;
+  const matches = tickets.filter(t => {
+    const contact = contacts.find(c => c.EndUserID === t.EndUserID);
+    return (!customerId || contact?.CustomerID === customerId) && (!status || t.TicketStatus === status);
+  });
+  res.json(page(matches, req));
+});
+
+app.get("/api/v3/tickets/:id", (req, res) => {
+  const ticket = tickets.find(t => t.TicketID === parseInt(req.params.id, 10));
+  if (!ticket) return res.status(404).json({ error: "Ticket not found" });
+  res.json(ticket);
+});
+
+app.put("/api/v3/tickets/:id", (req, res) => {
+  const ticket = tickets.find(t => t.TicketID === parseInt(req.params.id, 10));
+  if (!ticket) return res.status(404).json({ error: "Ticket not found" });
+  Object.assign(ticket, req.body || {});
+  console.log(`[fake-atera] updated ticket ${ticket.TicketID}: ${JSON.stringify(req.body)}`);
+  res.json({ ActionID: 1, ItemId: ticket.TicketID });
+});
+
+// Test helper: simulate a technician reply, e.g.
+//   curl -X POST localhost:5055/dev/tickets/999/reply -H 'Content-Type: application/json' -d '{"comment":"Fixed","status":"Resolved"}'
+app.post("/dev/tickets/:id/reply", (req, res) => {
+  const ticket = tickets.find(t => t.TicketID === parseInt(req.params.id, 10));
+  if (!ticket) return res.status(404).json({ error: "Ticket not found" });
+
+  const now = new Date().toISOString();
+  comments[ticket.TicketID] = [
+    ...(comments[ticket.TicketID] || []),
+    { Date: now, Comment: req.body?.comment || "Update from the helpdesk", TechnicianFullName: ticket.TechnicianFullName || "Sam Tech", IsInternal: false },
+  ];
+  ticket.LastTechnicianCommentTimestamp = now;
+  if (req.body?.status) ticket.TicketStatus = req.body.status;
+  res.json(ticket);
+});
+
+app.get("/api/v3/tickets/:id/comments", (req, res) => {
+  res.json(page(comments[parseInt(req.params.id, 10)] || [], req));
+});
+
+const port = parseInt(process.env.FAKE_ATERA_PORT || "5055", 10);
+app.listen(port, () => {
+  console.log(`[fake-atera] listening on http://localhost:${port}/api/v3`);
+});
@@ -0,0 +1,52 @@
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import type { GoldenCase } from "./metrics";
+
+export const defaultGoldenSetPath = process.env.EVAL_GOLDEN_SET || path.join('server', 'eval', 'goldenSet.json');
+
+export function validateGoldenCase(golden: any): string | undefined {
+  if (!golden || typeof golden !== 'object') return 'Golden case must be an object';
+  if (typeof golden.id !== 'string' || !golden.id.trim()) return 'id is required';
+  if (typeof golden.query !== 'string' || !golden.query.trim()) return 'query is required';
+  if (!Array.isArray(golden.expectedArticleIds) || !golden.expectedArticleIds.every((id: unknown) => typeof id === 'string')) {
+    return 'expectedArticleIds must be a list of article ids';
+  }
+  return undefined;
+}
+
+export function loadGoldenSet(file = defaultGoldenSetPath): GoldenCase[] {
+  const parsed = JSON.parse(readFileSync(file, 'utf-8'));
+  const cases: GoldenCase[] = Array.isArray(parsed) ? parsed : parsed.cases;
+  if (!Array.isArray(cases)) {
+    throw new Error(`${file} has no cases`);
+  }
+  for (const golden of cases) {
+    const problem = validateGoldenCase(golden);
+    if (problem) throw new Error(`Golden case ${JSON.stringify(golden?.id ?? golden?.query)}: ${problem}`);
+  }
+  return cases;
+}
+
+// "Outlook isn't receiving email" → "outlook-isnt-receiving-email"
+export function goldenCaseId(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 60) || 'case';
+}
+
+// Adds a case, or replaces the one with the same id, keeping the file's existing order
+export function saveGoldenCase(golden: GoldenCase, file = defaultGoldenSetPath): { created: boolean; total: number } {
+  const cases = loadGoldenSet(file);
+  const index = cases.findIndex(existing => existing.id === golden.id);
+  if (index === -1) {
+    cases.push(golden);
+  } else {
+    cases[index] = golden;
+  }
+
+  writeFileSync(file, JSON.stringify({ cases }, null, 2) + '\n');
+  return { created: index === -1, total: cases.length };
+}
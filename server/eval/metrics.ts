@@ -0,0 +1,121 @@
+// Scoring for the offline evaluation harness (npm run eval). Everything here is pure so
+// runs can be re-scored or compared without calling the model again.
+
+// A fact is a phrase the answer must contain; a list means any one of the phrasings counts
+export type Fact = string | string[];
+
+export interface GoldenCase {
+  id: string;
+  query: string;
+  expectedArticleIds: string[]; // Atera knowledge base ids, as stored in knowledge_base_articles.article_id
+  mustMention?: Fact[];
+  mustNotMention?: string[];
+}
+
+export interface CaseResult {
+  id: string;
+  query: string;
+  retrievedArticleIds: string[];
+  recallAtK: Record<number, number>;
+  reciprocalRank: number;
+  citedArticleIds: string[];
+  citationAccuracy: number | null; // null when the answer cited nothing
+  factsCovered: string[];
+  factsMissed: string[];
+  forbiddenMentioned: string[];
+  rubricScore: number | null; // null when the analysis step was skipped
+  answered: boolean; // false when the bot fell back to knowledge base results only
+  latencyMs: number;
+  error?: string;
+}
+
+export interface RunSummary {
+  cases: number;
+  recallAtK: Record<number, number>;
+  mrr: number;
+  citationAccuracy: number | null;
+  rubricScore: number | null;
+  answeredRate: number | null;
+  avgLatencyMs: number;
+  errors: number;
+}
+
+export interface EvalRun {
+  startedAt: string;
+  provider: string;
+  chatModel: string;
+  embeddingModel: string;
+  goldenSet: string;
+  retrievalOnly: boolean;
+  summary: RunSummary;
+  results: CaseResult[];
+}
+
+export function recallAtK(retrieved: string[], expected: string[], k: number): number {
+  if (expected.length === 0) return 1;
+  const top = new Set(retrieved.slice(0, k));
+  return expected.filter(id => top.has(id)).length / expected.length;
+}
+
+export function reciprocalRank(retrieved: string[], expected: string[]): number {
+  const rank = retrieved.findIndex(id => expected.includes(id));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+export function citationAccuracy(cited: string[], expected: string[]): number | null {
+  if (cited.length === 0) return null;
+  return cited.filter(id => expected.includes(id)).length / cited.length;
+}
+
+export function factLabel(fact: Fact): string {
+  return Array.isArray(fact) ? fact.join(' / ') : fact;
+}
+
+// Case-insensitive phrase checks against the full answer text. The score is the share of
+// required facts covered, and zero when the answer mentions something it must not.
+export function scoreRubric(
+  answer: string,
+  mustMention: Fact[] = [],
+  mustNotMention: string[] = []
+): { covered: string[]; missed: string[]; forbidden: string[]; score: number } {
+  const text = answer.toLowerCase();
+  const mentions = (phrase: string) => text.includes(phrase.toLowerCase());
+
+  const covered: string[] = [];
+  const missed: string[] = [];
+  for (const fact of mustMention) {
+    const phrasings = Array.isArray(fact) ? fact : [fact];
+    (phrasings.some(mentions) ? covered : missed).push(factLabel(fact));
+  }
+
+  const forbidden = mustNotMention.filter(mentions);
+  const coverage = mustMention.length > 0 ? covered.length / mustMention.length : 1;
+  return { covered, missed, forbidden, score: forbidden.length > 0 ? 0 : coverage };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function meanOrNull(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? mean(present) : null;
+}
+
+export function summarizeRun(results: CaseResult[], ks: number[], retrievalOnly: boolean): RunSummary {
+  const recall: Record<number, number> = {};
+  for (const k of ks) {
+    recall[k] = mean(results.map(result => result.recallAtK[k] ?? 0));
+  }
+
+  return {
+    cases: results.length,
+    recallAtK: recall,
+    mrr: mean(results.map(result => result.reciprocalRank)),
+    citationAccuracy: meanOrNull(results.map(result => result.citationAccuracy)),
+    rubricScore: meanOrNull(results.map(result => result.rubricScore)),
+    answeredRate: retrievalOnly ? null : mean(results.map(result => result.answered ? 1 : 0)),
+    avgLatencyMs: mean(results.map(result => result.latencyMs)),
+    errors: results.filter(result => result.error).length,
+  };
+}
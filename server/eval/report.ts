@@ -0,0 +1,140 @@
+import type { CaseResult, EvalRun } from "./metrics";
+
+type Format = 'percent' | 'ratio' | 'ms' | 'count';
+
+interface MetricRow {
+  label: string;
+  format: Format;
+  higherIsBetter: boolean;
+  value: (run: EvalRun) => number | null;
+}
+
+function metricRows(run: EvalRun): MetricRow[] {
+  const ks = Object.keys(run.summary.recallAtK).map(Number).sort((a, b) => a - b);
+  return [
+    ...ks.map(k => ({
+      label: `Recall@${k}`,
+      format: 'percent' as const,
+      higherIsBetter: true,
+      value: (r: EvalRun) => r.summary.recallAtK[k] ?? null,
+    })),
+    { label: 'MRR', format: 'ratio', higherIsBetter: true, value: r => r.summary.mrr },
+    { label: 'Citation accuracy', format: 'percent', higherIsBetter: true, value: r => r.summary.citationAccuracy },
+    { label: 'Rubric score', format: 'percent', higherIsBetter: true, value: r => r.summary.rubricScore },
+    { label: 'Answered by AI', format: 'percent', higherIsBetter: true, value: r => r.summary.answeredRate },
+    { label: 'Avg latency', format: 'ms', higherIsBetter: false, value: r => r.summary.avgLatencyMs },
+    { label: 'Errors', format: 'count', higherIsBetter: false, value: r => r.summary.errors },
+  ];
+}
+
+function formatValue(value: number | null | undefined, format: Format): string {
+  if (value === null || value === undefined) return '–';
+  switch (format) {
+    case 'percent': return `${(value * 100).toFixed(1)}%`;
+    case 'ratio': return value.toFixed(3);
+    case 'ms': return `${Math.round(value)}ms`;
+    case 'count': return String(value);
+  }
+}
+
+function formatChange(current: number | null, previous: number | null, row: MetricRow): string {
+  if (current === null || previous === null) return '';
+  // Differences too small to show at the display precision count as unchanged
+  if (formatValue(current, row.format) === formatValue(previous, row.format)) return '=';
+  const delta = current - previous;
+
+  const better = row.higherIsBetter ? delta > 0 : delta < 0;
+  const sign = delta > 0 ? '+' : '-';
+  const amount = row.format === 'percent'
+    ? `${(Math.abs(delta) * 100).toFixed(1)} pts`
+    : formatValue(Math.abs(delta), row.format);
+  return `${better ? '▲' : '▼'} ${sign}${amount}`;
+}
+
+// Per-case numbers worth flagging when they move between runs
+function caseMetrics(result: CaseResult): { label: string; value: number | null }[] {
+  const ks = Object.keys(result.recallAtK).map(Number);
+  const maxK = Math.max(...ks);
+  return [
+    { label: `recall@${maxK}`, value: result.recallAtK[maxK] ?? null },
+    { label: 'reciprocal rank', value: result.reciprocalRank },
+    { label: 'citation accuracy', value: result.citationAccuracy },
+    { label: 'rubric', value: result.rubricScore },
+  ];
+}
+
+function describeFailure(result: CaseResult): string[] {
+  const problems: string[] = [];
+  if (result.error) problems.push(`error: ${result.error}`);
+  if (result.reciprocalRank === 0) problems.push('no expected article retrieved');
+  if (!result.answered && result.rubricScore !== null) problems.push('answered from knowledge base only');
+  if (result.factsMissed.length > 0) problems.push(`missing: ${result.factsMissed.join(', ')}`);
+  if (result.forbiddenMentioned.length > 0) problems.push(`mentions: ${result.forbiddenMentioned.join(', ')}`);
+  if (result.citationAccuracy !== null && result.citationAccuracy < 1) problems.push('cites unexpected articles');
+  return problems;
+}
+
+export function renderReport(current: EvalRun, previous?: EvalRun): string {
+  const lines: string[] = [
+    '# Eval report',
+    '',
+    `- Run: ${current.startedAt} · ${current.provider} (chat: ${current.chatModel}, embeddings: ${current.embeddingModel})`,
+    `- Golden set: ${current.goldenSet} (${current.summary.cases} cases)${current.retrievalOnly ? ' · retrieval only' : ''}`,
+    previous
+      ? `- Compared with: ${previous.startedAt} · ${previous.provider} (chat: ${previous.chatModel})`
+      : '- Compared with: no previous run',
+    '',
+    '## Summary',
+    '',
+    '| Metric | Previous | Current | Change |',
+    '| --- | ---: | ---: | --- |',
+  ];
+
+  for (const row of metricRows(current)) {
+    const now = row.value(current);
+    const before = previous ? row.value(previous) : null;
+    lines.push(`| ${row.label} | ${formatValue(before, row.format)} | ${formatValue(now, row.format)} | ${formatChange(now, before, row)} |`);
+  }
+
+  if (previous) {
+    const previousById = new Map(previous.results.map(result => [result.id, result]));
+    const changes: string[] = [];
+
+    for (const result of current.results) {
+      const before = previousById.get(result.id);
+      if (!before) {
+        changes.push(`| ${result.id} | new case | | |`);
+        continue;
+      }
+      const beforeMetrics = new Map(caseMetrics(before).map(metric => [metric.label, metric.value]));
+      for (const metric of caseMetrics(result)) {
+        const old = beforeMetrics.get(metric.label) ?? null;
+        if (old === null || metric.value === null || Math.abs(old - metric.value) < 1e-9) continue;
+        const marker = metric.value > old ? '▲' : '▼';
+        changes.push(`| ${result.id} | ${metric.label} | ${old.toFixed(2)} | ${marker} ${metric.value.toFixed(2)} |`);
+      }
+    }
+
+    lines.push('', '## Changed cases', '');
+    if (changes.length > 0) {
+      lines.push('| Case | Metric | Previous | Current |', '| --- | --- | ---: | ---: |', ...changes);
+    } else {
+      lines.push('No per-case changes.');
+    }
+  }
+
+  const failing = current.results
+    .map(result => ({ result, problems: describeFailure(result) }))
+    .filter(entry => entry.problems.length > 0);
+
+  lines.push('', '## Failing cases', '');
+  if (failing.length > 0) {
+    for (const { result, problems } of failing) {
+      lines.push(`- **${result.id}** "${result.query}" (retrieved: ${result.retrievedArticleIds.join(', ') || 'none'}): ${problems.join('; ')}`);
+    }
+  } else {
+    lines.push('All cases passed.');
+  }
+
+  return lines.join('\n') + '\n';
+}
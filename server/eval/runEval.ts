@@ -0,0 +1,180 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import {
+  citationAccuracy,
+  reciprocalRank,
+  recallAtK,
+  scoreRubric,
+  summarizeRun,
+  type CaseResult,
+  type EvalRun,
+} from "./metrics";
+import { defaultGoldenSetPath, loadGoldenSet } from "./goldenSet";
+import { renderReport } from "./report";
+
+// Runs a golden set of queries through the same retrieval and analysis steps the bot
+// uses and scores them, so prompt and ranking changes can be compared run to run:
+//
+//   npm run eval                                  # server/eval/goldenSet.json, provider from LLM_PROVIDER
+//   npm run eval -- --provider fake --retrieval-only
+//   npm run eval -- --golden my-cases.json --out eval-results --baseline eval-results/latest.json
+//
+// Needs DATABASE_URL pointing at a synced knowledge base. Each run writes <timestamp>.json
+// and .md to the output directory and becomes latest.json, the default baseline for the next run.
+
+interface EvalOptions {
+  golden: string;
+  out: string;
+  provider?: string;
+  baseline?: string;
+  ks: number[];
+  retrievalOnly: boolean;
+}
+
+// handleMessage gives the analyst the top three articles
+const answerArticles = 3;
+
+function parseArgs(argv: string[]): EvalOptions {
+  const options: EvalOptions = {
+    golden: defaultGoldenSetPath,
+    out: 'eval-results',
+    ks: [1, 3, 5],
+    retrievalOnly: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (!next) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--golden': options.golden = value(); break;
+      case '--out': options.out = value(); break;
+      case '--provider': options.provider = value(); break;
+      case '--baseline': options.baseline = value(); break;
+      case '--k': options.ks = value().split(',').map(k => parseInt(k, 10)).filter(k => k > 0); break;
+      case '--retrieval-only': options.retrievalOnly = true; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  // The provider is picked when llmProvider is first imported, so set it before loading the pipeline
+  if (options.provider) process.env.LLM_PROVIDER = options.provider;
+
+  const { llmProvider, embeddingProvider } = await import("../lib/llmProvider.js");
+  const { knowledgeBaseRetriever } = await import("../lib/knowledgeBaseRetriever.js");
+  const { itSupportBot } = await import("../lib/teamsBot.js");
+  const { extractCitationNumbers } = await import("../lib/citations.js");
+
+  const cases = loadGoldenSet(options.golden);
+  if (cases.length === 0) throw new Error(`${options.golden} has no cases`);
+  const maxK = Math.max(...options.ks, answerArticles);
+  console.log(`🧪 Evaluating ${cases.length} cases from ${options.golden} with ${llmProvider.name} (${llmProvider.chatModel})`);
+
+  const results: CaseResult[] = [];
+  for (const golden of cases) {
+    const startTime = Date.now();
+    const result: CaseResult = {
+      id: golden.id,
+      query: golden.query,
+      retrievedArticleIds: [],
+      recallAtK: {},
+      reciprocalRank: 0,
+      citedArticleIds: [],
+      citationAccuracy: null,
+      factsCovered: [],
+      factsMissed: [],
+      forbiddenMentioned: [],
+      rubricScore: null,
+      answered: false,
+      latencyMs: 0,
+    };
+
+    try {
+      const retrieved = await knowledgeBaseRetriever.retrieve(golden.query, maxK);
+      result.retrievedArticleIds = retrieved.map(article => article.articleId);
+      for (const k of options.ks) {
+        result.recallAtK[k] = recallAtK(result.retrievedArticleIds, golden.expectedArticleIds, k);
+      }
+      result.reciprocalRank = reciprocalRank(result.retrievedArticleIds, golden.expectedArticleIds);
+
+      if (!options.retrievalOnly) {
+        const { analysis } = await itSupportBot.generateAIResponse(golden.query, retrieved.slice(0, answerArticles));
+        result.answered = !analysis.fallbackReason;
+
+        // Sources are numbered in the order the articles were given to the analyst
+        const citedNumbers = new Set([
+          ...extractCitationNumbers(analysis.issueDiagnosis),
+          ...analysis.immediateActions.flatMap(action => action.citations || []),
+        ]);
+        result.citedArticleIds = Array.from(new Set(
+          (analysis.sources || [])
+            .filter(source => citedNumbers.has(source.number))
+            .map(source => retrieved.find(article => article.url === source.url)?.articleId)
+            .filter((id): id is string => Boolean(id))
+        ));
+        result.citationAccuracy = citationAccuracy(result.citedArticleIds, golden.expectedArticleIds);
+
+        const answerText = [
+          analysis.issueDiagnosis,
+          ...analysis.immediateActions.flatMap(action => [action.step, action.description]),
+          ...analysis.expertRecommendations,
+        ].join('\n');
+        const rubric = scoreRubric(answerText, golden.mustMention, golden.mustNotMention);
+        result.factsCovered = rubric.covered;
+        result.factsMissed = rubric.missed;
+        result.forbiddenMentioned = rubric.forbidden;
+        result.rubricScore = result.answered ? rubric.score : 0;
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    result.latencyMs = Date.now() - startTime;
+    results.push(result);
+    console.log(`  ${result.error ? '❌' : result.reciprocalRank > 0 ? '✅' : '⚠️'} ${golden.id}: RR ${result.reciprocalRank.toFixed(2)}${result.rubricScore !== null ? `, rubric ${result.rubricScore.toFixed(2)}` : ''} (${result.latencyMs}ms)`);
+  }
+
+  const run: EvalRun = {
+    startedAt: new Date().toISOString(),
+    provider: llmProvider.name,
+    chatModel: llmProvider.chatModel,
+    embeddingModel: embeddingProvider.model,
+    goldenSet: options.golden,
+    retrievalOnly: options.retrievalOnly,
+    summary: summarizeRun(results, options.ks, options.retrievalOnly),
+    results,
+  };
+
+  mkdirSync(options.out, { recursive: true });
+  const latestPath = path.join(options.out, 'latest.json');
+  const baselinePath = options.baseline || latestPath;
+  const previous: EvalRun | undefined = existsSync(baselinePath)
+    ? JSON.parse(readFileSync(baselinePath, 'utf-8'))
+    : undefined;
+
+  const report = renderReport(run, previous);
+  const stamp = run.startedAt.replace(/[:.]/g, '-');
+  writeFileSync(path.join(options.out, `${stamp}.json`), JSON.stringify(run, null, 2));
+  writeFileSync(path.join(options.out, `${stamp}.md`), report);
+  writeFileSync(latestPath, JSON.stringify(run, null, 2));
+
+  console.log('\n' + report);
+  console.log(`📄 Report written to ${path.join(options.out, `${stamp}.md`)}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Eval failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,264 @@
+import { storage, interactionSeverity } from '../storage.js';
+import type { AnalyticsDailyRollup, InsertAnalyticsDailyRollup, SupportInteraction } from '@shared/schema.js';
+
+export const timeseriesMetrics = [
+  'interactions',
+  'unique_users',
+  'response_time_p50',
+  'response_time_p95',
+  'helpful_rate', // thumbs up share of rated answers
+  'feedback_rate', // share of answers that were rated at all
+  'fallback_rate',
+  'refused',
+  'severity', // counts per severity in each point's breakdown
+] as const;
+export type TimeseriesMetric = typeof timeseriesMetrics[number];
+
+export const timeseriesBuckets = ['day', 'week', 'month'] as const;
+export type TimeseriesBucket = typeof timeseriesBuckets[number];
+
+export interface TimeseriesPoint {
+  bucket: string; // first day of the bucket, YYYY-MM-DD
+  value: number | null; // null when there was nothing to measure
+  breakdown?: Record<string, number>;
+}
+
+export interface Timeseries {
+  metric: TimeseriesMetric;
+  bucket: TimeseriesBucket;
+  from: string;
+  to: string;
+  points: TimeseriesPoint[];
+}
+
+// Upper bounds in ms of the response time histogram; one more slot counts anything slower.
+// Daily histograms add up, so weekly and monthly percentiles come out right to within a bucket.
+const histogramBounds = [250, 500, 750, 1000, 1500, 2000, 3000, 4000, 5000, 7500, 10000, 15000, 20000, 30000, 60000];
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export function dayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function dayStart(day: string): Date {
+  return new Date(`${day}T00:00:00.000Z`);
+}
+
+function addDays(day: string, days: number): string {
+  return dayKey(new Date(dayStart(day).getTime() + days * dayMs));
+}
+
+function bucketKey(day: string, bucket: TimeseriesBucket): string {
+  if (bucket === 'month') return `${day.substring(0, 7)}-01`;
+  if (bucket === 'week') {
+    // Weeks start on Monday
+    const weekday = (dayStart(day).getUTCDay() + 6) % 7;
+    return addDays(day, -weekday);
+  }
+  return day;
+}
+
+function percentile(sortedValues: number[], p: number): number | null {
+  if (sortedValues.length === 0) return null;
+  return sortedValues[Math.max(Math.ceil(p * sortedValues.length) - 1, 0)];
+}
+
+function histogramPercentile(histogram: number[], p: number): number | null {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  if (total === 0) return null;
+
+  let seen = 0;
+  for (let i = 0; i < histogram.length; i++) {
+    seen += histogram[i];
+    if (seen >= p * total) return histogramBounds[Math.min(i, histogramBounds.length - 1)];
+  }
+  return histogramBounds[histogramBounds.length - 1];
+}
+
+function rate(count: number, total: number): number | null {
+  return total > 0 ? count / total : null;
+}
+
+export class AnalyticsRollup {
+  private backfillDays = parseInt(process.env.ANALYTICS_BACKFILL_DAYS || '90', 10);
+  // Feedback usually arrives within a few days of the answer, so these days are always recomputed
+  private recomputeDays = parseInt(process.env.ANALYTICS_RECOMPUTE_DAYS || '7', 10);
+  private pageSize = 1000;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  // Rolls up anything missing from the last ANALYTICS_BACKFILL_DAYS now, then the last ANALYTICS_RECOMPUTE_DAYS
+  // and today shortly after each UTC midnight
+  start(): void {
+    console.log(`📊 Rolling up interaction analytics nightly (backfilling ${this.backfillDays} days)`);
+    this.backfill().catch(error => console.error('❌ Analytics backfill failed:', error));
+
+    const now = Date.now();
+    const nextRun = Math.ceil(now / dayMs) * dayMs + 5 * 60 * 1000;
+    this.timer = setTimeout(() => {
+      this.runNightly();
+      this.timer = setInterval(() => this.runNightly(), dayMs);
+    }, nextRun - now);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  async backfill(): Promise<number> {
+    const today = dayKey(new Date());
+    const from = addDays(today, -this.backfillDays);
+    const recomputeFrom = addDays(today, -this.recomputeDays);
+    const existing = new Set((await storage.getDailyRollups(from, today)).map(rollup => rollup.day));
+
+    let rolledUp = 0;
+    for (let day = from; day <= today; day = addDays(day, 1)) {
+      if (existing.has(day) && day < recomputeFrom) continue;
+      await this.rollupDay(day);
+      rolledUp++;
+    }
+    return rolledUp;
+  }
+
+  // Recomputes every day in the range, e.g. after feedback arrived on older answers
+  async rollupRange(fromDay: string, toDay: string): Promise<AnalyticsDailyRollup[]> {
+    for (let day = fromDay; day <= toDay; day = addDays(day, 1)) {
+      await this.rollupDay(day);
+    }
+    return storage.getDailyRollups(fromDay, toDay);
+  }
+
+  async rollupDay(day: string): Promise<InsertAnalyticsDailyRollup> {
+    const interactions = await this.interactionsOn(day);
+    const responseTimes = interactions
+      .map(interaction => interaction.responseTime)
+      .filter((time): time is number => time !== null)
+      .sort((a, b) => a - b);
+
+    const histogram = new Array(histogramBounds.length + 1).fill(0);
+    for (const time of responseTimes) {
+      const index = histogramBounds.findIndex(bound => time <= bound);
+      histogram[index === -1 ? histogramBounds.length : index]++;
+    }
+
+    const severityCounts: Record<string, number> = {};
+    for (const interaction of interactions) {
+      const severity = interactionSeverity(interaction);
+      if (severity) severityCounts[severity] = (severityCounts[severity] || 0) + 1;
+    }
+
+    const userIds = Array.from(new Set(interactions.map(interaction => interaction.userId)));
+    const rollup: InsertAnalyticsDailyRollup = {
+      day,
+      interactions: interactions.length,
+      uniqueUsers: userIds.length,
+      userIds,
+      p50ResponseTime: percentile(responseTimes, 0.5),
+      p95ResponseTime: percentile(responseTimes, 0.95),
+      responseTimeHistogram: histogram,
+      rated: interactions.filter(interaction => interaction.wasHelpful !== null).length,
+      helpful: interactions.filter(interaction => interaction.wasHelpful === true).length,
+      fallback: interactions.filter(interaction => interaction.responseMode === 'fallback').length,
+      refused: interactions.filter(interaction => interaction.responseMode === 'refused').length,
+      severityCounts,
+    };
+
+    await storage.saveDailyRollup(rollup);
+    return rollup;
+  }
+
+  async timeseries(metric: TimeseriesMetric, bucket: TimeseriesBucket, fromDay: string, toDay: string): Promise<Timeseries> {
+    // Today is still filling up, so refresh it rather than waiting for tonight's rollup
+    const today = dayKey(new Date());
+    if (fromDay <= today && toDay >= today) await this.rollupDay(today);
+
+    const rollups = await storage.getDailyRollups(fromDay, toDay);
+    const groups = new Map<string, AnalyticsDailyRollup[]>();
+    for (let day = fromDay; day <= toDay; day = addDays(day, 1)) {
+      const key = bucketKey(day, bucket);
+      if (!groups.has(key)) groups.set(key, []);
+    }
+    for (const rollup of rollups) {
+      groups.get(bucketKey(rollup.day, bucket))?.push(rollup);
+    }
+
+    const points = Array.from(groups.entries()).map(([key, days]) => this.point(metric, key, days));
+    return { metric, bucket, from: fromDay, to: toDay, points };
+  }
+
+  private point(metric: TimeseriesMetric, bucket: string, days: AnalyticsDailyRollup[]): TimeseriesPoint {
+    const sum = (field: 'interactions' | 'rated' | 'helpful' | 'fallback' | 'refused') =>
+      days.reduce((total, day) => total + day[field], 0);
+
+    switch (metric) {
+      case 'interactions':
+        return { bucket, value: sum('interactions') };
+      case 'unique_users': {
+        const users = new Set(days.flatMap(day => day.userIds || []));
+        return { bucket, value: users.size };
+      }
+      case 'response_time_p50':
+      case 'response_time_p95': {
+        const p = metric === 'response_time_p50' ? 0.5 : 0.95;
+        // A single day has its exact percentiles; longer buckets merge histograms
+        if (days.length === 1) {
+          return { bucket, value: p === 0.5 ? days[0].p50ResponseTime : days[0].p95ResponseTime };
+        }
+        const histogram = new Array(histogramBounds.length + 1).fill(0);
+        for (const day of days) {
+          ((day.responseTimeHistogram as number[] | null) || []).forEach((count, i) => { histogram[i] += count; });
+        }
+        return { bucket, value: histogramPercentile(histogram, p) };
+      }
+      case 'helpful_rate':
+        return { bucket, value: rate(sum('helpful'), sum('rated')) };
+      case 'feedback_rate':
+        return { bucket, value: rate(sum('rated'), sum('interactions') - sum('refused')) };
+      case 'fallback_rate':
+        return { bucket, value: rate(sum('fallback'), sum('interactions') - sum('refused')) };
+      case 'refused':
+        return { bucket, value: sum('refused') };
+      case 'severity': {
+        const breakdown: Record<string, number> = {};
+        for (const day of days) {
+          for (const [severity, count] of Object.entries((day.severityCounts as Record<string, number> | null) || {})) {
+            breakdown[severity] = (breakdown[severity] || 0) + count;
+          }
+        }
+        return { bucket, value: Object.values(breakdown).reduce((total, count) => total + count, 0), breakdown };
+      }
+    }
+  }
+
+  private async interactionsOn(day: string): Promise<SupportInteraction[]> {
+    const from = dayStart(day);
+    const to = new Date(from.getTime() + dayMs - 1);
+    const interactions: SupportInteraction[] = [];
+
+    for (let offset = 0; ; offset += this.pageSize) {
+      const page = await storage.findInteractions({ from, to }, offset, this.pageSize);
+      interactions.push(...page.interactions);
+      if (interactions.length >= page.total || page.interactions.length === 0) break;
+    }
+    return interactions;
+  }
+
+  private async runNightly(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      const today = dayKey(new Date());
+      const from = addDays(today, -this.recomputeDays);
+      await this.rollupRange(from, today);
+      console.log(`📊 Analytics rolled up for ${from} to ${addDays(today, -1)}`);
+    } catch (error) {
+      console.error('❌ Error in nightly analytics rollup:', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const analyticsRollup = new AnalyticsRollup();
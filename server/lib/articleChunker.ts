@@ -0,0 +1,122 @@
+import * as cheerio from "cheerio";
+import { sanitizeArticleHtml } from "./promptSanitizer";
+
+export interface ArticleChunk {
+  chunkIndex: number;
+  heading: string | null;
+  anchor: string | null; // id of the section heading in the article HTML, when it has one
+  content: string;
+}
+
+interface Section {
+  heading: string | null;
+  anchor: string | null;
+  text: string;
+}
+
+const HEADING_PATTERN = /<h([1-4])([^>]*)>([\s\S]*?)<\/h\1>/gi;
+
+// Split article HTML into sections at h1-h4 headings, then size them for retrieval:
+// long sections are split on paragraph boundaries, tiny ones merged into their neighbour.
+// Hidden markup is dropped first so it can't reach prompts through retrieved sections.
+export function chunkArticle(html: string, maxChars = 1500, minChars = 200): ArticleChunk[] {
+  const sections = splitIntoSections(sanitizeArticleHtml(html));
+  const chunks: Omit<ArticleChunk, 'chunkIndex'>[] = [];
+
+  for (const section of sections) {
+    for (const part of splitLongText(section.text, maxChars)) {
+      const previous = chunks[chunks.length - 1];
+      const canMerge = previous &&
+        (part.length < minChars || previous.content.length < minChars) &&
+        previous.content.length + part.length + 2 <= maxChars;
+
+      if (canMerge) {
+        previous.content = `${previous.content}\n\n${part}`;
+      } else {
+        chunks.push({ heading: section.heading, anchor: section.anchor, content: part });
+      }
+    }
+  }
+
+  return chunks.map((chunk, chunkIndex) => ({ ...chunk, chunkIndex }));
+}
+
+function splitIntoSections(html: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { heading: null, anchor: null, text: '' };
+  let lastIndex = 0;
+
+  for (const match of Array.from(html.matchAll(HEADING_PATTERN))) {
+    current.text = htmlToText(html.substring(lastIndex, match.index));
+    if (current.text) sections.push(current);
+
+    const [, , attributes, headingHtml] = match;
+    current = {
+      heading: htmlToText(headingHtml) || null,
+      anchor: findAnchor(attributes, headingHtml),
+      text: '',
+    };
+    lastIndex = (match.index || 0) + match[0].length;
+  }
+
+  current.text = htmlToText(html.substring(lastIndex));
+  if (current.text) {
+    sections.push(current);
+  } else if (current.heading) {
+    // A trailing heading with no body still says something about the article
+    sections.push({ ...current, text: current.heading });
+  }
+
+  return sections;
+}
+
+function findAnchor(headingAttributes: string, headingHtml: string): string | null {
+  const idMatch = headingAttributes.match(/\bid\s*=\s*["']([^"']+)["']/i);
+  if (idMatch) return idMatch[1];
+
+  // Older editors put a named anchor inside the heading instead
+  const namedAnchor = headingHtml.match(/<a[^>]*\b(?:name|id)\s*=\s*["']([^"']+)["']/i);
+  return namedAnchor ? namedAnchor[1] : null;
+}
+
+function htmlToText(html: string): string {
+  // Keep block boundaries as line breaks so paragraphs and list items stay separate
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|pre|blockquote)>/gi, '\n');
+
+  const $ = cheerio.load(`<body>${withBreaks}</body>`);
+  $('script, style').remove();
+
+  return $('body')
+    .text()
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+function splitLongText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const parts: string[] = [];
+  let current = '';
+
+  for (const line of text.split('\n')) {
+    // A single oversized paragraph is cut on sentence boundaries
+    const pieces = line.length > maxChars ? line.match(/[^.!?]+[.!?]*\s*/g) || [line] : [line];
+
+    pieces.forEach((piece, index) => {
+      if (current && current.length + piece.length + 1 > maxChars) {
+        parts.push(current.trim());
+        current = '';
+      }
+      // Sentences of the same paragraph run on; new paragraphs start a new line
+      const separator = current && index === 0 ? '\n' : '';
+      current += separator + piece;
+    });
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
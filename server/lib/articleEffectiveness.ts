@@ -0,0 +1,73 @@
+import { storage, type ArticleImpressionStats } from '../storage.js';
+import { articleClickTracker } from './articleTracking.js';
+
+export interface ArticleRates {
+  impressions: number;
+  clickThroughRate: number | null;
+  helpfulRate: number | null; // of impressions whose answer was rated
+  ticketRate: number | null;
+}
+
+export interface ArticleEffectiveness extends ArticleRates {
+  articleId: string;
+  title: string;
+  clicked: number;
+  rated: number;
+  helpful: number;
+  tickets: number;
+  previous: ArticleRates; // the same metrics for the period before, for trends
+}
+
+export interface ArticleLeaderboard {
+  days: number;
+  from: Date;
+  to: Date;
+  trackingEnabled: boolean; // click-throughs are only counted when cards link through the redirect
+  articles: ArticleEffectiveness[];
+}
+
+function rate(count: number, total: number): number | null {
+  return total > 0 ? count / total : null;
+}
+
+function toRates(stats: ArticleImpressionStats | undefined): ArticleRates {
+  return {
+    impressions: stats?.impressions || 0,
+    clickThroughRate: stats ? rate(stats.clicked, stats.impressions) : null,
+    helpfulRate: stats ? rate(stats.helpful, stats.rated) : null,
+    ticketRate: stats ? rate(stats.tickets, stats.impressions) : null,
+  };
+}
+
+// Which knowledge base articles actually resolve issues: how often each is shown,
+// opened, rated helpful, or followed by a ticket anyway
+export class ArticleEffectivenessAnalyzer {
+  async leaderboard(days = 30): Promise<ArticleLeaderboard> {
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+    const previousFrom = new Date(from.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const [current, previous] = await Promise.all([
+      storage.getArticleImpressionStats(from, to),
+      storage.getArticleImpressionStats(previousFrom, from),
+    ]);
+    const previousById = new Map(previous.map(stats => [stats.articleId, stats]));
+
+    const articles = current
+      .map(stats => ({
+        articleId: stats.articleId,
+        title: stats.title || `Article ${stats.articleId}`,
+        clicked: stats.clicked,
+        rated: stats.rated,
+        helpful: stats.helpful,
+        tickets: stats.tickets,
+        ...toRates(stats),
+        previous: toRates(previousById.get(stats.articleId)),
+      }))
+      .sort((a, b) => b.impressions - a.impressions || (b.helpfulRate ?? -1) - (a.helpfulRate ?? -1));
+
+    return { days, from, to, trackingEnabled: articleClickTracker.enabled, articles };
+  }
+}
+
+export const articleEffectivenessAnalyzer = new ArticleEffectivenessAnalyzer();
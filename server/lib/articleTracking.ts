@@ -0,0 +1,73 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { storage } from '../storage.js';
+import { parseFoundArticles } from '@shared/schema';
+
+// Article links in support cards point at /api/kb/open/<interaction>/<position>/<signature>
+// instead of the article itself, so opening one is recorded before the user is redirected. The
+// position is the article's 1-based place in the interaction's foundArticles, the same number
+// its citations use, and the target URL always comes from the stored interaction so the
+// redirect can't be pointed anywhere else. The signature is an HMAC of the other two parts, so
+// nobody can walk the sequential interaction ids to see what other users asked about.
+export class ArticleClickTracker {
+  private baseUrl = (
+    process.env.PUBLIC_BASE_URL
+    || (process.env.WEBSITE_HOSTNAME ? `https://${process.env.WEBSITE_HOSTNAME}` : '')
+  ).replace(/\/+$/, '');
+  private secret?: string;
+
+  // Without a public address to send users back to, cards keep the direct article link
+  get enabled(): boolean {
+    return this.baseUrl.length > 0;
+  }
+
+  trackedUrl(url: string, interactionId: number | undefined, position: number): string {
+    if (!this.enabled || interactionId === undefined || !url || url === '#') return url;
+    return `${this.baseUrl}/api/kb/open/${interactionId}/${position}/${this.sign(interactionId, position)}`;
+  }
+
+  isSigned(interactionId: number, position: number, signature: string): boolean {
+    const expected = Buffer.from(this.sign(interactionId, position));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private sign(interactionId: number, position: number): string {
+    return createHmac('sha256', this.signingSecret())
+      .update(`${interactionId}:${position}`)
+      .digest('base64url');
+  }
+
+  private signingSecret(): string {
+    if (!this.secret) {
+      this.secret = process.env.ARTICLE_LINK_SECRET || process.env.SESSION_SECRET;
+      if (!this.secret) {
+        console.warn('⚠️ ARTICLE_LINK_SECRET is not set, using a random one; article links in older cards stop working when the server restarts');
+        this.secret = randomBytes(32).toString('hex');
+      }
+    }
+    return this.secret;
+  }
+
+  // Records the click and returns where to send the user, or undefined when the link is unknown
+  async open(interactionId: number, position: number): Promise<string | undefined> {
+    const interaction = await storage.getSupportInteraction(interactionId);
+    if (!interaction) return undefined;
+    const article = parseFoundArticles(interaction.foundArticles)[position - 1];
+    if (!article?.url || !article.articleId) return undefined;
+
+    try {
+      await storage.recordArticleClick({
+        interactionId,
+        articleId: article.articleId,
+        userId: interaction.userId,
+      });
+    } catch (error) {
+      // Never keep the user from their article because tracking failed
+      console.error('Failed to record article click:', error);
+    }
+
+    return article.url;
+  }
+}
+
+export const articleClickTracker = new ArticleClickTracker();
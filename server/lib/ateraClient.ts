@@ -0,0 +1,196 @@
+// Thin client for the Atera REST API (https://app.atera.com/api/v3).
+// Point ATERA_API_BASE_URL at a local fake server (see server/dev/fakeAtera.ts) to test without Atera.
+
+export interface AteraContact {
+  EndUserID: number;
+  CustomerID: number;
+  CustomerName?: string;
+  Email: string;
+  Firstname?: string;
+  Lastname?: string;
+}
+
+export interface AteraTicket {
+  TicketID: number;
+  TicketTitle: string;
+  TicketNumber?: string;
+  TicketStatus: string;
+  TicketPriority?: string;
+  TicketType?: string;
+  EndUserID?: number;
+  EndUserEmail?: string;
+  EndUserFirstName?: string;
+  EndUserLastName?: string;
+  TechnicianFullName?: string;
+  TicketCreatedDate?: string;
+  LastEndUserCommentTimestamp?: string;
+  LastTechnicianCommentTimestamp?: string;
+}
+
+export interface AteraTicketComment {
+  Date: string;
+  Comment: string;
+  FirstName?: string;
+  LastName?: string;
+  TechnicianFullName?: string;
+  EndUserID?: number;
+  IsInternal?: boolean;
+}
+
+export type AteraTicketPriority = 'Low' | 'Medium' | 'High' | 'Critical';
+
+export interface CreateTicketInput {
+  title: string;
+  description: string;
+  priority: AteraTicketPriority;
+  endUserEmail: string;
+  endUserFirstName?: string;
+  endUserLastName?: string;
+}
+
+export class AteraApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AteraApiError';
+  }
+}
+
+export class AteraClient {
+  get baseUrl(): string {
+    return (process.env.ATERA_API_BASE_URL || 'https://app.atera.com/api/v3').replace(/\/+$/, '');
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.ATERA_API_TOKEN;
+  }
+
+  // Smallest authenticated request, for health checks
+  async ping(): Promise<void> {
+    await this.request('/knowledgebases?page=1&itemsInPage=1');
+  }
+
+  async createTicket(input: CreateTicketInput): Promise<{ ticketId: number }> {
+    // Atera needs either an existing end user or enough details to create one
+    const contact = await this.findContactByEmail(input.endUserEmail);
+
+    const body: Record<string, any> = {
+      TicketTitle: input.title,
+      Description: input.description,
+      TicketPriority: input.priority,
+      TicketImpact: 'Minor',
+      TicketStatus: 'Open',
+      TicketType: 'Problem',
+    };
+
+    if (contact) {
+      body.EndUserID = contact.EndUserID;
+    } else {
+      body.EndUserEmail = input.endUserEmail;
+      body.EndUserFirstName = input.endUserFirstName || input.endUserEmail.split('@')[0];
+      body.EndUserLastName = input.endUserLastName || '';
+    }
+
+    const result = await this.request<{ ActionID?: number; ItemId?: number; TicketID?: number }>('/tickets', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+
+    const ticketId = result.ItemId ?? result.TicketID;
+    if (!ticketId) {
+      throw new AteraApiError('Atera did not return a ticket id', 502);
+    }
+
+    console.log(`🎫 Created Atera ticket ${ticketId} for ${input.endUserEmail}`);
+    return { ticketId };
+  }
+
+  async getTicket(ticketId: number): Promise<AteraTicket | undefined> {
+    try {
+      return await this.request<AteraTicket>(`/tickets/${ticketId}`);
+    } catch (error) {
+      if (error instanceof AteraApiError && error.status === 404) return undefined;
+      throw error;
+    }
+  }
+
+  async listTicketsForContact(contact: AteraContact): Promise<AteraTicket[]> {
+    const tickets = await this.fetchAllPages<AteraTicket>(`/tickets?customerId=${contact.CustomerID}`);
+    return tickets
+      .filter(ticket => this.isTicketOwnedBy(ticket, contact))
+      .sort((a, b) => new Date(b.TicketCreatedDate || 0).getTime() - new Date(a.TicketCreatedDate || 0).getTime());
+  }
+
+  async listOpenTicketsForContact(contact: AteraContact): Promise<AteraTicket[]> {
+    const tickets = await this.listTicketsForContact(contact);
+    return tickets.filter(ticket => !['Closed', 'Resolved'].includes(ticket.TicketStatus));
+  }
+
+  async updateTicketStatus(ticketId: number, status: string): Promise<void> {
+    await this.request(`/tickets/${ticketId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ TicketStatus: status }),
+    });
+    console.log(`🎫 Set Atera ticket ${ticketId} status to ${status}`);
+  }
+
+  async getTicketComments(ticketId: number): Promise<AteraTicketComment[]> {
+    const comments = await this.fetchAllPages<AteraTicketComment>(`/tickets/${ticketId}/comments`, 3);
+    return comments
+      .filter(comment => !comment.IsInternal)
+      .sort((a, b) => new Date(b.Date).getTime() - new Date(a.Date).getTime());
+  }
+
+  isTicketOwnedBy(ticket: AteraTicket, contact: AteraContact): boolean {
+    return ticket.EndUserID === contact.EndUserID ||
+      (!!ticket.EndUserEmail && ticket.EndUserEmail.toLowerCase() === contact.Email.toLowerCase());
+  }
+
+  async findContactByEmail(email: string): Promise<AteraContact | undefined> {
+    const normalized = email.trim().toLowerCase();
+    const contacts = await this.fetchAllPages<AteraContact>(`/contacts?searchOptions=${encodeURIComponent(normalized)}`);
+    return contacts.find(contact => contact.Email?.toLowerCase() === normalized);
+  }
+
+  private async fetchAllPages<T>(path: string, maxPages = 10): Promise<T[]> {
+    const items: T[] = [];
+    const separator = path.includes('?') ? '&' : '?';
+
+    for (let page = 1; page <= maxPages; page++) {
+      const data = await this.request<{ items?: T[]; totalPages?: number }>(
+        `${path}${separator}page=${page}&itemsInPage=50`
+      );
+      items.push(...(data.items || []));
+
+      if (!data.items || data.items.length === 0 || page >= (data.totalPages || 1)) {
+        break;
+      }
+    }
+
+    return items;
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    if (!this.isConfigured()) {
+      throw new AteraApiError('ATERA_API_TOKEN not configured', 500);
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'X-API-KEY': process.env.ATERA_API_TOKEN!,
+        'Accept': 'application/json',
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new AteraApiError(`Atera API error: ${response.status} - ${detail || response.statusText}`, response.status);
+    }
+
+    return await response.json() as T;
+  }
+}
+
+export const ateraClient = new AteraClient();
@@ -0,0 +1,286 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import { Issuer, generators, type BaseClient } from 'openid-client';
+import { storage } from '../storage.js';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Each role includes everything the roles before it can do
+export const userRoles = ['viewer', 'kb_editor', 'admin'] as const;
+export type UserRole = typeof userRoles[number];
+
+export interface SessionUser {
+  id: string; // users.id for local accounts, the Entra object id otherwise
+  username: string;
+  name: string;
+  role: UserRole;
+  provider: 'local' | 'entra';
+}
+
+declare module 'express-session' {
+  interface SessionData {
+    user?: SessionUser;
+    // Kept between the redirect to Entra and its callback
+    oidc?: { state: string; nonce: string; codeVerifier: string; returnTo: string };
+  }
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (userRoles as readonly string[]).includes(value);
+}
+
+export function hasRole(user: SessionUser | undefined, role: UserRole): boolean {
+  return !!user && userRoles.indexOf(user.role) >= userRoles.indexOf(role);
+}
+
+// Rejects the request unless the signed-in user has at least `role`
+export function requireRole(role: UserRole): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = req.session.user;
+    if (!user) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    if (!hasRole(user, role)) {
+      return res.status(403).json({ error: `This needs the ${role} role; you are signed in as ${user.role}` });
+    }
+    next();
+  };
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt}:${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Counts failed password sign-ins per key in a sliding window. Once a key reaches its limit
+// it is locked out until its oldest failure in the window expires.
+class LoginThrottle {
+  private failures = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  // Milliseconds until the key may try again, or 0 when it isn't locked out
+  retryAfter(key: string, now = Date.now()): number {
+    const recent = this.recent(key, now);
+    return recent.length >= this.limit ? recent[0] + this.windowMs - now : 0;
+  }
+
+  recordFailure(key: string, now = Date.now()): void {
+    this.failures.set(key, [...this.recent(key, now), now]);
+    if (this.failures.size > 10000) this.prune(now);
+  }
+
+  reset(key: string): void {
+    this.failures.delete(key);
+  }
+
+  private recent(key: string, now: number): number[] {
+    return (this.failures.get(key) || []).filter(time => now - time < this.windowMs);
+  }
+
+  private prune(now: number): void {
+    for (const key of Array.from(this.failures.keys())) {
+      if (this.recent(key, now).length === 0) this.failures.delete(key);
+    }
+  }
+}
+
+// AUTH_LOGIN_MAX_ATTEMPTS failed sign-ins lock a username for AUTH_LOCKOUT_MINUTES;
+// an IP address gets four times as many, across all usernames it tries
+const maxLoginAttempts = parseInt(process.env.AUTH_LOGIN_MAX_ATTEMPTS || '5', 10);
+const lockoutMs = parseInt(process.env.AUTH_LOCKOUT_MINUTES || '15', 10) * 60 * 1000;
+
+// Sessions live in memory, so everyone signs in again after a restart
+export function createSessionMiddleware(): RequestHandler {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn('⚠️ SESSION_SECRET is not set, using a random one; sessions end when the server restarts');
+    secret = randomBytes(32).toString('hex');
+  }
+
+  const maxAge = parseInt(process.env.SESSION_TTL_HOURS || '12', 10) * 60 * 60 * 1000;
+  const MemoryStore = createMemoryStore(session);
+  return session({
+    name: 'helpdesk.sid',
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    store: new MemoryStore({ checkPeriod: 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax', // the Entra callback is a top-level redirect, which lax cookies survive
+      secure: process.env.NODE_ENV === 'production',
+      maxAge,
+    },
+  });
+}
+
+// Signs dashboard users in with Entra ID (OpenID Connect authorization code flow with PKCE)
+// or, as a fallback, with a username and password from the users table. Entra users get
+// their role from the app roles assigned to them in the app registration.
+export class Authenticator {
+  private entraClient?: Promise<BaseClient>;
+  private usernameThrottle = new LoginThrottle(maxLoginAttempts, lockoutMs);
+  private ipThrottle = new LoginThrottle(maxLoginAttempts * 4, lockoutMs);
+
+  get entraEnabled(): boolean {
+    return !!(process.env.AZURE_TENANT_ID && process.env.AZURE_CLIENT_ID && process.env.AZURE_CLIENT_SECRET);
+  }
+
+  get localEnabled(): boolean {
+    return process.env.AUTH_LOCAL_LOGIN !== 'false';
+  }
+
+  // Creates the AUTH_ADMIN_USERNAME account on startup so there is always a way in
+  async ensureBootstrapAdmin(): Promise<void> {
+    const username = process.env.AUTH_ADMIN_USERNAME;
+    const password = process.env.AUTH_ADMIN_PASSWORD;
+    if (!username || !password || !this.localEnabled) return;
+
+    const existing = await storage.getUserByUsername(username);
+    if (existing) return;
+
+    await storage.createUser({ username, password: await hashPassword(password), role: 'admin' });
+    console.log(`🔐 Created admin account ${username}`);
+  }
+
+  async loginWithPassword(username: string, password: string, ip: string): Promise<SessionUser> {
+    if (!this.localEnabled) {
+      throw new AuthError('Username and password sign-in is turned off', 403);
+    }
+
+    // Usernames are matched case-insensitively for throttling so case changes don't reset the count
+    const usernameKey = username.trim().toLowerCase();
+    const retryAfter = Math.max(this.usernameThrottle.retryAfter(usernameKey), this.ipThrottle.retryAfter(ip));
+    if (retryAfter > 0) {
+      const minutes = Math.ceil(retryAfter / 60000);
+      throw new AuthError(`Too many failed sign-in attempts, try again in ${minutes} minute${minutes === 1 ? '' : 's'}`, 429);
+    }
+
+    const user = await storage.getUserByUsername(username.trim());
+    // Verify against a dummy hash when the user doesn't exist so timing doesn't reveal usernames
+    const valid = await verifyPassword(password, user?.password || `scrypt:${'0'.repeat(32)}:${'0'.repeat(128)}`);
+    if (!user || !valid) {
+      this.usernameThrottle.recordFailure(usernameKey);
+      this.ipThrottle.recordFailure(ip);
+      console.warn(`🔐 Failed sign-in for ${usernameKey} from ${ip}`);
+      throw new AuthError('Invalid username or password');
+    }
+
+    this.usernameThrottle.reset(usernameKey);
+
+    return {
+      id: String(user.id),
+      username: user.username,
+      name: user.username,
+      role: isUserRole(user.role) ? user.role : 'viewer',
+      provider: 'local',
+    };
+  }
+
+  async entraLoginUrl(req: Request, returnTo: string): Promise<string> {
+    const client = await this.getEntraClient();
+    const codeVerifier = generators.codeVerifier();
+    const checks = { state: generators.state(), nonce: generators.nonce(), codeVerifier, returnTo };
+    req.session.oidc = checks;
+
+    return client.authorizationUrl({
+      scope: 'openid profile email',
+      redirect_uri: this.redirectUri(req),
+      state: checks.state,
+      nonce: checks.nonce,
+      code_challenge: generators.codeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+    });
+  }
+
+  async completeEntraLogin(req: Request): Promise<{ user: SessionUser; returnTo: string }> {
+    const checks = req.session.oidc;
+    if (!checks) {
+      throw new AuthError('The sign-in attempt expired, please try again');
+    }
+    delete req.session.oidc;
+
+    const client = await this.getEntraClient();
+    const tokens = await client.callback(this.redirectUri(req), client.callbackParams(req), {
+      state: checks.state,
+      nonce: checks.nonce,
+      code_verifier: checks.codeVerifier,
+    });
+    const claims = tokens.claims();
+
+    const role = this.roleFromClaims(claims.roles);
+    if (!role) {
+      throw new AuthError('Your account has not been given access to the dashboard', 403);
+    }
+
+    const username = String(claims.preferred_username || claims.email || claims.sub);
+    return {
+      user: {
+        id: String(claims.oid || claims.sub),
+        username,
+        name: String(claims.name || username),
+        role,
+        provider: 'entra',
+      },
+      returnTo: checks.returnTo,
+    };
+  }
+
+  // Highest app role wins. Users without one are refused unless AUTH_DEFAULT_ROLE opts in to
+  // a fallback role; being in the tenant alone is not enough to see the dashboard.
+  private roleFromClaims(roles: unknown): UserRole | undefined {
+    const assigned = (Array.isArray(roles) ? roles : []).map(role => String(role).toLowerCase());
+    const highest = [...userRoles].reverse().find(role => assigned.includes(role));
+    if (highest) return highest;
+
+    const fallback = (process.env.AUTH_DEFAULT_ROLE || 'none').toLowerCase();
+    return isUserRole(fallback) ? fallback : undefined;
+  }
+
+  private redirectUri(req: Request): string {
+    return process.env.AUTH_REDIRECT_URI || `${req.protocol}://${req.get('host')}/api/auth/callback`;
+  }
+
+  // Discovered on first sign-in; a failed discovery is retried on the next one
+  private getEntraClient(): Promise<BaseClient> {
+    if (!this.entraEnabled) {
+      return Promise.reject(new AuthError('Entra ID sign-in is not configured', 404));
+    }
+    if (!this.entraClient) {
+      this.entraClient = Issuer.discover(`https://login.microsoftonline.com/${process.env.AZURE_TENANT_ID}/v2.0`)
+        .then(issuer => new issuer.Client({
+          client_id: process.env.AZURE_CLIENT_ID!,
+          client_secret: process.env.AZURE_CLIENT_SECRET!,
+          response_types: ['code'],
+        }))
+        .catch(error => {
+          this.entraClient = undefined;
+          throw error;
+        });
+    }
+    return this.entraClient;
+  }
+}
+
+export const authenticator = new Authenticator();
@@ -0,0 +1,115 @@
+import type { AteraTicketPriority } from './ateraClient.js';
+
+// Typed payloads carried by Action.Submit buttons on the bot's adaptive cards.
+// Teams echoes the `data` object back as `activity.value` when a button is pressed.
+
+export interface DetailedStepsAction {
+  action: 'detailedSteps';
+  interactionId: number;
+  stepIndex?: number;
+}
+
+export interface FollowUpQuestionsAction {
+  action: 'followUpQuestions';
+  interactionId: number;
+}
+
+export interface FeedbackAction {
+  action: 'feedback';
+  interactionId: number;
+  helpful: boolean;
+}
+
+export interface FeedbackCommentAction {
+  action: 'feedbackComment';
+  interactionId: number;
+  comment: string;
+}
+
+export interface ReopenTicketAction {
+  action: 'reopenTicket';
+  ticketId: number;
+}
+
+export type CardActionData =
+  | DetailedStepsAction
+  | FollowUpQuestionsAction
+  | FeedbackAction
+  | FeedbackCommentAction
+  | ReopenTicketAction;
+
+export function parseCardAction(value: any): CardActionData | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  // Ticket notifications aren't tied to a support interaction
+  if (value.action === 'reopenTicket') {
+    const ticketId = Number(value.ticketId);
+    return Number.isInteger(ticketId) ? { action: 'reopenTicket', ticketId } : undefined;
+  }
+
+  const interactionId = Number(value.interactionId);
+  if (!Number.isInteger(interactionId)) return undefined;
+
+  switch (value.action) {
+    case 'detailedSteps': {
+      const stepIndex = Number(value.stepIndex);
+      return Number.isInteger(stepIndex)
+        ? { action: 'detailedSteps', interactionId, stepIndex }
+        : { action: 'detailedSteps', interactionId };
+    }
+    case 'followUpQuestions':
+      return { action: 'followUpQuestions', interactionId };
+    case 'feedback':
+      return { action: 'feedback', interactionId, helpful: value.helpful === true || value.helpful === 'true' };
+    case 'feedbackComment':
+      // The comment comes from the card's Input.Text, merged into the submit data by Teams
+      return { action: 'feedbackComment', interactionId, comment: String(value.comment || '').trim() };
+    default:
+      return undefined;
+  }
+}
+
+// "Open a ticket" buttons use msteams task/fetch, so their data arrives as a
+// task module invoke rather than a message and is parsed separately.
+export interface OpenTicketRequest {
+  action: 'openTicket';
+  interactionId?: number;
+}
+
+export interface TicketFormSubmission {
+  action: 'createTicket';
+  interactionId?: number;
+  title: string;
+  description: string;
+  priority: AteraTicketPriority;
+}
+
+const ticketPriorities: AteraTicketPriority[] = ['Low', 'Medium', 'High', 'Critical'];
+
+export function parseOpenTicketRequest(data: any): OpenTicketRequest | undefined {
+  if (!data || data.action !== 'openTicket') return undefined;
+
+  const interactionId = Number(data.interactionId);
+  return Number.isInteger(interactionId)
+    ? { action: 'openTicket', interactionId }
+    : { action: 'openTicket' };
+}
+
+export function parseTicketFormSubmission(data: any): TicketFormSubmission | undefined {
+  if (!data || data.action !== 'createTicket') return undefined;
+
+  const title = String(data.title || '').trim();
+  const description = String(data.description || '').trim();
+  if (!title || !description) return undefined;
+
+  const interactionId = Number(data.interactionId);
+  const priority = ticketPriorities.includes(data.priority) ? data.priority : 'Medium';
+
+  return {
+    action: 'createTicket',
+    title,
+    description,
+    priority,
+    ...(Number.isInteger(interactionId) ? { interactionId } : {}),
+  };
+}
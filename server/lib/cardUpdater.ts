@@ -0,0 +1,65 @@
+import { ActivityTypes, CardFactory, TurnContext } from 'botbuilder';
+
+// Edits one bot message in place while a response is being generated. Teams throttles
+// message edits, so intermediate cards are coalesced and sent at most once per interval.
+export class ThrottledCardUpdater {
+  private pending: object | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<unknown> = Promise.resolve();
+  private lastSentAt = 0;
+  private finished = false;
+  private failed = false;
+
+  constructor(
+    private context: TurnContext,
+    readonly activityId: string,
+    private intervalMs = parseInt(process.env.STREAMING_UPDATE_INTERVAL_MS || '1500', 10)
+  ) {}
+
+  update(card: object): void {
+    if (this.finished || this.failed) return;
+
+    this.pending = card;
+    if (this.timer) return;
+
+    const wait = Math.max(0, this.lastSentAt + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const next = this.pending;
+      this.pending = null;
+      if (next && !this.finished) {
+        this.inFlight = this.inFlight.then(() => this.send(next));
+      }
+    }, wait);
+  }
+
+  // Drops any queued intermediate card and replaces the message with the final one.
+  // Returns false when the message couldn't be edited, so the caller can send it instead.
+  async finish(card: object): Promise<boolean> {
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = null;
+
+    await this.inFlight;
+    return this.send(card);
+  }
+
+  private async send(card: object): Promise<boolean> {
+    try {
+      await this.context.updateActivity({
+        id: this.activityId,
+        type: ActivityTypes.Message,
+        attachments: [CardFactory.adaptiveCard(card)]
+      });
+      this.lastSentAt = Date.now();
+      return true;
+    } catch (error) {
+      console.error('Failed to update streaming support card:', error);
+      this.failed = true;
+      return false;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { AnalysisSource, TechnicalAnalysis } from './aiAnalyst.js';
+
+// Matches [1] as well as grouped markers like [1, 2]
+const CITATION_MARKER = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Numbered context passed to the model; numbers are 1-based to match the [n] markers
+export function numberSources(
+  articles: { title?: string; sectionHeading?: string | null; url?: string }[]
+): AnalysisSource[] {
+  return articles.map((article, index) => ({
+    number: index + 1,
+    title: article.title || 'Knowledge Base Article',
+    sectionHeading: article.sectionHeading || null,
+    url: article.url || '#',
+  }));
+}
+
+// The model is asked to cite sources per step, but nothing stops it from citing
+// sources that were never provided. Keep only citations that point at a real source,
+// both in each step's citation list and in the [n] markers inside the text.
+export function validateCitations(analysis: TechnicalAnalysis, sources: AnalysisSource[]): TechnicalAnalysis {
+  const isValid = (n: number) => Number.isInteger(n) && n >= 1 && n <= sources.length;
+  const dropped = new Set<number>();
+
+  const cleanText = (text: string | undefined): string => {
+    if (!text) return text || '';
+    return text.replace(CITATION_MARKER, (marker, group: string) => {
+      const numbers = parseGroup(group);
+      const valid = numbers.filter(isValid);
+      numbers.filter(n => !isValid(n)).forEach(n => dropped.add(n));
+
+      if (valid.length === numbers.length) return marker;
+      return valid.length > 0 ? ` [${valid.join(', ')}]` : '';
+    });
+  };
+
+  const immediateActions = (analysis.immediateActions || []).map(action => {
+    const declared = Array.isArray(action.citations) ? action.citations.map(Number) : [];
+    const inline = [
+      ...extractCitationNumbers(action.step),
+      ...extractCitationNumbers(action.description),
+    ];
+
+    const citations = Array.from(new Set([...declared, ...inline]))
+      .filter(n => {
+        if (isValid(n)) return true;
+        dropped.add(n);
+        return false;
+      })
+      .sort((a, b) => a - b);
+
+    return {
+      ...action,
+      step: cleanText(action.step),
+      description: cleanText(action.description),
+      citations,
+    };
+  });
+
+  const issueDiagnosis = cleanText(analysis.issueDiagnosis);
+
+  if (dropped.size > 0) {
+    console.warn(`⚠️ Dropped citations to unknown sources: ${Array.from(dropped).join(', ')} (${sources.length} sources provided)`);
+  }
+
+  return {
+    ...analysis,
+    issueDiagnosis,
+    immediateActions,
+    sources,
+  };
+}
+
+export function extractCitationNumbers(text: string | undefined): number[] {
+  if (!text) return [];
+  return Array.from(text.matchAll(CITATION_MARKER)).flatMap(match => parseGroup(match[1]));
+}
+
+// For places that show the text without the sources list (ticket descriptions, prompt history)
+export function stripCitationMarkers(text: string): string {
+  return (text || '').replace(CITATION_MARKER, '');
+}
+
+function parseGroup(group: string): number[] {
+  return group.split(',').map(part => parseInt(part.trim(), 10));
+}
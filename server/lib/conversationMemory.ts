@@ -0,0 +1,180 @@
+import { TurnContext } from 'botbuilder';
+import { storage } from '../storage.js';
+import type { TechnicalAnalysis } from './aiAnalyst.js';
+import { stripCitationMarkers } from './citations.js';
+
+export interface TranscriptTurn {
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: string;
+}
+
+export interface SessionArticle {
+  articleId?: string;
+  title: string;
+  url: string;
+  excerpt?: string;
+  relevanceScore?: number; // as scored when the article was found
+  // The matched section, so a follow-up that reuses the article still gives the model its text
+  sectionHeading?: string | null;
+  sectionContent?: string;
+}
+
+// Shape of botSessions.sessionData for a troubleshooting thread
+export interface ConversationSessionData {
+  issueSummary?: string;
+  transcript: TranscriptTurn[];
+  lastAnalysis?: TechnicalAnalysis;
+  shownArticles: SessionArticle[];
+  lastInteractionId?: number;
+  lastActivityAt?: string;
+}
+
+// Words that say nothing about which issue a message is about
+const fillerWords = new Set([
+  'the', 'and', 'but', 'for', 'with', 'that', 'this', 'these', 'those', 'what', 'when', 'where', 'why', 'how',
+  'can', 'cant', 'could', 'would', 'should', 'you', 'your', 'have', 'has', 'had', 'was', 'were', 'are', 'not',
+  'didnt', 'doesnt', 'dont', 'isnt', 'wont', 'still', 'again', 'just', 'also', 'then', 'now', 'yes', 'okay',
+  'thanks', 'thank', 'please', 'help', 'more', 'detailed', 'details', 'steps', 'step', 'work', 'worked', 'working',
+  'try', 'tried', 'same', 'another', 'other', 'solution', 'solutions', 'find', 'provide', 'explain', 'next',
+  'did', 'does', 'there', 'any', 'some', 'get', 'got', 'need', 'want', 'after', 'before', 'from', 'about',
+  'give', 'tell', 'show', 'know', 'see', 'will', 'its', 'which', 'one', 'way', 'else', 'instead',
+]);
+
+function topicTerms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/'/g, '')
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(term => term.length > 2 && !fillerWords.has(term))
+      .map(term => term.replace(/(ing|ed|es|s)$/, '') || term)
+  );
+}
+
+export class ConversationMemory {
+  private maxTranscriptTurns = 20;
+  private threadTimeoutMinutes = 120; // Start a fresh thread after 2 hours of silence
+
+  async getSession(context: TurnContext): Promise<ConversationSessionData> {
+    const conversationId = context.activity.conversation.id;
+    const existing = await storage.getBotSession(conversationId);
+
+    if (!existing) {
+      await storage.createBotSession({
+        userId: context.activity.from.id,
+        channelId: context.activity.channelId,
+        conversationId,
+        sessionData: this.emptySession(),
+      });
+      return this.emptySession();
+    }
+
+    const data = (existing.sessionData || {}) as Partial<ConversationSessionData>;
+    const session: ConversationSessionData = {
+      ...data,
+      transcript: data.transcript || [],
+      shownArticles: data.shownArticles || [],
+    };
+
+    if (this.isStale(session)) {
+      console.log(`Conversation ${conversationId} idle for over ${this.threadTimeoutMinutes} minutes, starting a new thread`);
+      return this.emptySession();
+    }
+
+    return session;
+  }
+
+  hasActiveThread(session: ConversationSessionData): boolean {
+    return !!session.issueSummary && session.transcript.length > 0;
+  }
+
+  // Whether a message carries on the thread's issue rather than raising a new one: either it
+  // names nothing of its own ("that didn't work, more steps please") or it shares a topic word
+  // with the issue, earlier messages or the articles already shown
+  continuesThread(session: ConversationSessionData, message: string): boolean {
+    if (!this.hasActiveThread(session)) return false;
+
+    const terms = topicTerms(message);
+    if (terms.size === 0) return true;
+
+    const threadTerms = topicTerms([
+      session.issueSummary,
+      ...session.transcript.filter(turn => turn.role === 'user').map(turn => turn.text),
+      ...session.shownArticles.map(article => article.title),
+    ].join(' '));
+    return Array.from(terms).some(term => threadTerms.has(term));
+  }
+
+  async recordExchange(
+    context: TurnContext,
+    session: ConversationSessionData,
+    exchange: {
+      userMessage: string;
+      analysis: TechnicalAnalysis;
+      articles: SessionArticle[];
+      interactionId?: number;
+    }
+  ): Promise<ConversationSessionData> {
+    const now = new Date().toISOString();
+
+    const transcript: TranscriptTurn[] = [
+      ...session.transcript,
+      { role: 'user' as const, text: exchange.userMessage, timestamp: now },
+      { role: 'assistant' as const, text: this.summarizeAnalysis(exchange.analysis), timestamp: now },
+    ].slice(-this.maxTranscriptTurns);
+
+    const updated: ConversationSessionData = {
+      issueSummary: session.issueSummary || exchange.userMessage,
+      transcript,
+      lastAnalysis: exchange.analysis,
+      // Keep the articles from earlier turns when a follow-up didn't surface new ones
+      shownArticles: exchange.articles.length > 0 ? exchange.articles : session.shownArticles,
+      lastInteractionId: exchange.interactionId ?? session.lastInteractionId,
+      lastActivityAt: now,
+    };
+
+    await storage.updateBotSession(context.activity.conversation.id, updated);
+    return updated;
+  }
+
+  async reset(context: TurnContext): Promise<void> {
+    await storage.updateBotSession(context.activity.conversation.id, this.emptySession());
+  }
+
+  buildPromptContext(session: ConversationSessionData): string | undefined {
+    if (!this.hasActiveThread(session)) return undefined;
+
+    const lines = session.transcript.map(turn =>
+      `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.text}`
+    );
+
+    const articles = session.shownArticles.length > 0
+      ? `\nArticles already shown to the user: ${session.shownArticles.map(a => a.title).join('; ')}`
+      : '';
+
+    return `Original issue: "${session.issueSummary}"\n${lines.join('\n')}${articles}`;
+  }
+
+  private summarizeAnalysis(analysis: TechnicalAnalysis): string {
+    const steps = (analysis.immediateActions || [])
+      .slice(0, 3)
+      .map((action, index) => `${index + 1}. ${stripCitationMarkers(action.step)}`)
+      .join(' ');
+    // Citation numbers refer to that turn's sources, which the next prompt renumbers
+    return `${stripCitationMarkers(analysis.issueDiagnosis)}${steps ? ` Suggested steps: ${steps}` : ''}`;
+  }
+
+  private isStale(session: ConversationSessionData): boolean {
+    if (!session.lastActivityAt) return false;
+    const idleMs = Date.now() - new Date(session.lastActivityAt).getTime();
+    return idleMs > this.threadTimeoutMinutes * 60 * 1000;
+  }
+
+  private emptySession(): ConversationSessionData {
+    return { transcript: [], shownArticles: [] };
+  }
+}
+
+export const conversationMemory = new ConversationMemory();
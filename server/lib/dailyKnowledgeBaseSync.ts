@@ -1,9 +1,14 @@
 import { db } from "../db";
-import { knowledgeBaseArticles } from "@shared/schema";
-import { eq, and, or, isNull, lt } from "drizzle-orm";
-import OpenAI from "openai";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { knowledgeBaseArticles, knowledgeBaseChunks } from "@shared/schema";
+import { eq, and, or, isNull, lt, gte, ne, sql } from "drizzle-orm";
+import { ateraClient } from "./ateraClient";
+import { chunkEmbeddingText, contentHash } from "./embeddings";
+import { llmProvider, embeddingProvider } from "./llmProvider";
+import { generateStructured } from "./structuredOutput";
+import { keywordGenerationSchema } from "./llmSchemas";
+import { chunkArticle } from "./articleChunker";
+import { sanitizeForPrompt } from "./promptSanitizer";
+import { semanticSearchEngine } from "./semanticSearch";
 
 interface AteraArticle {
   id: string;
@@ -18,19 +23,30 @@ interface AteraArticle {
   url: string;
 }
 
-interface SyncStats {
+export interface SyncStats {
   lastSyncTime: Date;
   articlesChecked: number;
   articlesUpdated: number;
   articlesAdded: number;
   keywordsGenerated: number;
+  chunksIndexed: number;
+  embeddingsGenerated: number;
   totalArticles: number;
   errors: string[];
 }
 
 export class DailyKnowledgeBaseSync {
-  private baseUrl = 'https://app.atera.com/api/v3/knowledgebases';
+  private baseUrl = `${ateraClient.baseUrl}/knowledgebases`;
   private syncIntervalHours = 24; // Run every 24 hours
+  private lastSync?: SyncStats; // the last sync that ran to the end, for health checks
+
+  get intervalHours(): number {
+    return this.syncIntervalHours;
+  }
+
+  get lastCompletedSync(): SyncStats | undefined {
+    return this.lastSync;
+  }
 
   async startAutoSync(): Promise<void> {
     console.log('🔄 Starting automated daily knowledge base sync...');
@@ -58,6 +74,8 @@ export class DailyKnowledgeBaseSync {
       articlesUpdated: 0,
       articlesAdded: 0,
       keywordsGenerated: 0,
+      chunksIndexed: 0,
+      embeddingsGenerated: 0,
       totalArticles: 0,
       errors: []
     };
@@ -100,22 +118,40 @@ export class DailyKnowledgeBaseSync {
       const keywordsGenerated = await this.generateMissingKeywords();
       stats.keywordsGenerated = keywordsGenerated;
 
-      // Step 6: Clean up removed articles
+      // Step 6: Clean up removed articles (their chunks cascade)
       await this.cleanupRemovedArticles(qualityArticles.map(a => a.id));
 
+      // Step 7: Split articles into sections and embed new or changed ones
+      console.log('✂️ Chunking articles into sections...');
+      try {
+        stats.chunksIndexed = await this.indexArticleChunks();
+        console.log(`🧭 Generating embeddings with ${embeddingProvider.model}...`);
+        stats.embeddingsGenerated = await this.generateMissingEmbeddings();
+        semanticSearchEngine.invalidate();
+      } catch (error) {
+        console.error('❌ Error indexing article chunks:', error);
+        stats.errors.push(`Failed to index article chunks: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
       // Final stats
       const finalCount = await db.select().from(knowledgeBaseArticles);
       stats.totalArticles = finalCount.length;
 
+      // Recorded in the database so health checks know the sync age after a restart
+      await db.update(knowledgeBaseArticles).set({ lastSyncedAt: syncStartTime });
+
       console.log('✅ Daily sync completed successfully:', {
         duration: `${Date.now() - syncStartTime.getTime()}ms`,
         articlesChecked: stats.articlesChecked,
         articlesAdded: stats.articlesAdded,
         articlesUpdated: stats.articlesUpdated,
         keywordsGenerated: stats.keywordsGenerated,
+        chunksIndexed: stats.chunksIndexed,
+        embeddingsGenerated: stats.embeddingsGenerated,
         totalArticles: stats.totalArticles,
         errors: stats.errors.length
       });
+      this.lastSync = stats;
 
     } catch (error) {
       console.error('❌ Fatal error in daily sync:', error);
@@ -308,18 +344,16 @@ export class DailyKnowledgeBaseSync {
 
   private async generateSearchKeywords(title: string, content: string): Promise<string[]> {
     try {
-      // Clean HTML content for better keyword extraction
-      const cleanContent = content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+      // Clean HTML content for better keyword extraction, dropping hidden or instruction-like text
+      const cleanContent = sanitizeForPrompt(content).replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
       
       // Use more content for better context, prioritize title and first 2000 chars
       const textToAnalyze = `Title: ${title}\n\nContent: ${cleanContent.substring(0, 2000)}`;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert at extracting specific, actionable search keywords from IT support documentation. 
+      const { keywords } = await generateStructured(llmProvider, [
+        {
+          role: "system",
+          content: `You are an expert at extracting specific, actionable search keywords from IT support documentation. 
 
 REQUIREMENTS:
 - Extract 5-7 highly specific keywords that users would search for
@@ -330,27 +364,19 @@ REQUIREMENTS:
 - Ensure keywords are directly related to the actual content, not generic IT terms
 
 Return a JSON object with a "keywords" array containing only the most relevant, specific search terms.`
-          },
-          {
-            role: "user",
-            content: `Extract specific search keywords from this IT support article. Focus on what users would actually search for to find this specific information:\n\n${textToAnalyze}`
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 300
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"keywords": []}');
-      const keywords = result.keywords || result.searchKeywords || [];
+        },
+        {
+          role: "user",
+          content: `Extract specific search keywords from this IT support article. Focus on what users would actually search for to find this specific information:\n\n${textToAnalyze}`
+        }
+      ], keywordGenerationSchema, 'Article keywords', { maxTokens: 300 });
       
       // Filter and clean keywords
-      const cleanedKeywords = Array.isArray(keywords) 
-        ? keywords
-            .map(k => String(k).trim().toLowerCase())
-            .filter(k => k.length > 2 && k.length < 50)
-            .filter(k => !this.isGenericKeyword(k))
-            .slice(0, 7)
-        : [];
+      const cleanedKeywords = keywords
+        .map(k => k.trim().toLowerCase())
+        .filter(k => k.length > 2 && k.length < 50)
+        .filter(k => !this.isGenericKeyword(k))
+        .slice(0, 7);
       
       return cleanedKeywords.length > 0 ? cleanedKeywords : this.extractBasicKeywords(title);
 
@@ -361,6 +387,138 @@ Return a JSON object with a "keywords" array containing only the most relevant,
     }
   }
 
+  // Rewrites only the chunks whose text changed; unchanged chunks keep their embeddings
+  private async indexArticleChunks(): Promise<number> {
+    const articles = await db
+      .select()
+      .from(knowledgeBaseArticles)
+      .where(eq(knowledgeBaseArticles.isActive, true));
+
+    const existing = await db
+      .select({
+        articleId: knowledgeBaseChunks.articleId,
+        chunkIndex: knowledgeBaseChunks.chunkIndex,
+        contentHash: knowledgeBaseChunks.contentHash,
+      })
+      .from(knowledgeBaseChunks);
+    const existingByArticle = new Map<string, Map<number, string>>();
+    for (const chunk of existing) {
+      const hashes = existingByArticle.get(chunk.articleId) || new Map<number, string>();
+      hashes.set(chunk.chunkIndex, chunk.contentHash);
+      existingByArticle.set(chunk.articleId, hashes);
+    }
+
+    let indexed = 0;
+
+    for (const article of articles) {
+      const chunks = chunkArticle(article.content);
+      const existingHashes = existingByArticle.get(article.articleId) || new Map<number, string>();
+
+      for (const chunk of chunks) {
+        const hash = contentHash(
+          chunkEmbeddingText(article.title, chunk.heading, chunk.content, article.searchKeywords)
+        );
+        if (existingHashes.get(chunk.chunkIndex) === hash) continue;
+
+        const values = {
+          articleId: article.articleId,
+          chunkIndex: chunk.chunkIndex,
+          heading: chunk.heading,
+          anchor: chunk.anchor,
+          content: chunk.content,
+          contentHash: hash,
+          articleTitle: article.title,
+          articleKeywords: (article.searchKeywords || []).join(' '),
+          model: null,
+          embedding: null,
+          updatedAt: new Date()
+        };
+
+        await db
+          .insert(knowledgeBaseChunks)
+          .values(values)
+          .onConflictDoUpdate({
+            target: [knowledgeBaseChunks.articleId, knowledgeBaseChunks.chunkIndex],
+            set: values
+          });
+        indexed++;
+      }
+
+      // The article got shorter: drop sections that no longer exist
+      if (existingHashes.size > chunks.length) {
+        await db
+          .delete(knowledgeBaseChunks)
+          .where(and(
+            eq(knowledgeBaseChunks.articleId, article.articleId),
+            gte(knowledgeBaseChunks.chunkIndex, chunks.length)
+          ));
+      }
+    }
+
+    // Keeps the copied title and keywords that feed each section's search document in step with
+    // the article, including sections written before they were copied
+    await db.execute(sql`
+      UPDATE knowledge_base_chunks c
+      SET article_title = a.title, article_keywords = coalesce(array_to_string(a.search_keywords, ' '), '')
+      FROM knowledge_base_articles a
+      WHERE a.article_id = c.article_id
+        AND (c.article_title IS DISTINCT FROM a.title
+          OR c.article_keywords IS DISTINCT FROM coalesce(array_to_string(a.search_keywords, ' '), ''))
+    `);
+
+    console.log(`✂️ ${indexed} article sections added or changed`);
+    return indexed;
+  }
+
+  private async generateMissingEmbeddings(): Promise<number> {
+    // New or changed chunks, plus everything embedded with a different model
+    const pending = await db
+      .select({
+        id: knowledgeBaseChunks.id,
+        heading: knowledgeBaseChunks.heading,
+        content: knowledgeBaseChunks.content,
+        title: knowledgeBaseArticles.title,
+        searchKeywords: knowledgeBaseArticles.searchKeywords,
+      })
+      .from(knowledgeBaseChunks)
+      .innerJoin(knowledgeBaseArticles, eq(knowledgeBaseChunks.articleId, knowledgeBaseArticles.articleId))
+      .where(and(
+        eq(knowledgeBaseArticles.isActive, true),
+        or(
+          isNull(knowledgeBaseChunks.embedding),
+          isNull(knowledgeBaseChunks.model),
+          ne(knowledgeBaseChunks.model, embeddingProvider.model)
+        )
+      ));
+
+    if (pending.length === 0) {
+      console.log('🎯 All article sections already have up-to-date embeddings');
+      return 0;
+    }
+
+    console.log(`🧭 Embedding ${pending.length} article sections...`);
+    let generated = 0;
+    const batchSize = 32;
+
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = pending.slice(i, i + batchSize);
+      const vectors = await embeddingProvider.embed(
+        batch.map(chunk => chunkEmbeddingText(chunk.title, chunk.heading, chunk.content, chunk.searchKeywords))
+      );
+
+      for (let j = 0; j < batch.length; j++) {
+        await db
+          .update(knowledgeBaseChunks)
+          .set({ model: embeddingProvider.model, embedding: vectors[j], updatedAt: new Date() })
+          .where(eq(knowledgeBaseChunks.id, batch[j].id));
+        generated++;
+      }
+    }
+
+    return generated;
+  }
+
+
   private isGenericKeyword(keyword: string): boolean {
     const genericTerms = [
       'it support', 'troubleshooting', 'help', 'guide', 'instructions', 
@@ -403,12 +561,18 @@ Return a JSON object with a "keywords" array containing only the most relevant,
   async getSyncStats(): Promise<SyncStats> {
     const totalArticles = await db.select().from(knowledgeBaseArticles);
     
+    if (this.lastSync) {
+      return { ...this.lastSync, totalArticles: totalArticles.length };
+    }
+
     return {
       lastSyncTime: new Date(),
       articlesChecked: 0,
       articlesUpdated: 0,
       articlesAdded: 0,
       keywordsGenerated: 0,
+      chunksIndexed: 0,
+      embeddingsGenerated: 0,
       totalArticles: totalArticles.length,
       errors: []
     };
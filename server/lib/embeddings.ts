@@ -0,0 +1,131 @@
+import { createHash } from "crypto";
+import type { LLMProvider } from "./llmProvider";
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Embeddings from whichever LLM backend is configured (OpenAI, Azure, local server)
+export class LLMEmbeddingProvider implements EmbeddingProvider {
+  constructor(private llm: LLMProvider) {}
+
+  get name(): string {
+    return this.llm.name;
+  }
+
+  get model(): string {
+    return this.llm.embeddingModel;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return this.llm.embed(texts);
+  }
+}
+
+// Deterministic feature-hashing embeddings. No network access or model needed,
+// so tests and offline development get stable, repeatable similarity scores.
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+
+  constructor(private dimensions = 256) {
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+    const tokens = text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 1)
+      .map(token => this.stem(token));
+
+    for (const token of tokens) {
+      this.addFeature(vector, token, 1);
+
+      // Character trigrams let related word forms ("print", "printer") overlap
+      const padded = `#${token}#`;
+      for (let i = 0; i < padded.length - 2; i++) {
+        this.addFeature(vector, padded.substring(i, i + 3), 0.3);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const index = hash % this.dimensions;
+    const sign = (hash >>> 16) & 1 ? 1 : -1;
+    vector[index] += sign * weight;
+  }
+
+  private stem(token: string): string {
+    return token.replace(/(ing|ed|es|s)$/, '') || token;
+  }
+}
+
+export function createEmbeddingProvider(llm: LLMProvider): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  const llmUnavailable = llm.name === 'openai' && !process.env.OPENAI_API_KEY && !process.env.OPENAI_KEY;
+
+  if (configured === 'local' || (!configured && llmUnavailable)) {
+    return new LocalHashEmbeddingProvider();
+  }
+  return new LLMEmbeddingProvider(llm);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Text that represents one article section for embedding: the article title and
+// section heading give the chunk context its own body text often lacks
+export function chunkEmbeddingText(
+  articleTitle: string,
+  heading: string | null,
+  content: string,
+  keywords: string[] | null = []
+): string {
+  const headingLine = heading && heading !== articleTitle ? `\n${heading}` : '';
+  const keywordLine = keywords && keywords.length > 0 ? `\nKeywords: ${keywords.join(', ')}` : '';
+  // Stay well within embedding model input limits
+  return `${articleTitle}${headingLine}${keywordLine}\n\n${content}`.substring(0, 8000);
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,176 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db.js';
+import { ateraClient } from './ateraClient.js';
+import { llmProvider } from './llmProvider.js';
+import { dailyKnowledgeBaseSync } from './dailyKnowledgeBaseSync.js';
+
+export type CheckStatus = 'up' | 'degraded' | 'down' | 'not_configured';
+export type OverallStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface HealthCheck {
+  status: CheckStatus;
+  latencyMs: number | null; // null when nothing was called
+  detail?: string;
+  error?: string;
+}
+
+export interface KnowledgeBaseCheck extends HealthCheck {
+  articles: number | null;
+  lastSyncTime: string | null; // start of the last sync that ran to the end
+  lastSyncAgeMinutes: number | null;
+}
+
+export interface HealthReport {
+  status: OverallStatus;
+  timestamp: string;
+  checks: {
+    teams_bot: HealthCheck;
+    database: HealthCheck;
+    openai: HealthCheck;
+    atera_api: HealthCheck;
+    knowledge_base: KnowledgeBaseCheck;
+  };
+}
+
+class ProbeTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`No response within ${timeoutMs}ms`);
+    this.name = 'ProbeTimeoutError';
+  }
+}
+
+// The Neon driver rejects with WebSocket error events, which aren't Errors but carry a message
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error || (typeof error === 'object' && error && 'message' in error)
+    ? String((error as { message: unknown }).message)
+    : String(error);
+  return (message || 'Unknown error').substring(0, 300);
+}
+
+// Probes each dependency for real (a database round-trip, a models call, an Atera request)
+// instead of trusting that its environment variables are set. Results are cached for a few
+// seconds so load balancer probes and dashboard refreshes don't hammer OpenAI and Atera.
+export class HealthMonitor {
+  private cacheMs = parseInt(process.env.HEALTH_CACHE_SECONDS || '15', 10) * 1000;
+  private probeTimeoutMs = parseInt(process.env.HEALTH_PROBE_TIMEOUT_MS || '5000', 10);
+  private cached?: { report: HealthReport; expiresAt: number };
+  private inFlight?: Promise<HealthReport>;
+
+  // Liveness only says the process is up and serving; it never touches a dependency
+  liveness() {
+    return {
+      status: 'alive',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+    };
+  }
+
+  async readiness(force = false): Promise<HealthReport> {
+    if (!force && this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.report;
+    }
+    // Concurrent callers share one round of probes
+    if (!this.inFlight) {
+      this.inFlight = this.runChecks()
+        .then(report => {
+          this.cached = { report, expiresAt: Date.now() + this.cacheMs };
+          return report;
+        })
+        .finally(() => { this.inFlight = undefined; });
+    }
+    return this.inFlight;
+  }
+
+  private async runChecks(): Promise<HealthReport> {
+    const [database, openai, atera_api, knowledge_base] = await Promise.all([
+      this.probe(async () => { await db.execute(sql`select 1`); }),
+      this.checkLanguageModel(),
+      ateraClient.isConfigured()
+        ? this.probe(() => ateraClient.ping(), ateraClient.baseUrl)
+        : Promise.resolve<HealthCheck>({ status: 'not_configured', latencyMs: null, detail: 'ATERA_API_TOKEN is not set' }),
+      this.checkKnowledgeBase(),
+    ]);
+    const teams_bot: HealthCheck = process.env.MICROSOFT_APP_ID && process.env.MICROSOFT_APP_PASSWORD
+      ? { status: 'up', latencyMs: null, detail: 'Credentials configured' }
+      : { status: 'not_configured', latencyMs: null, detail: 'MICROSOFT_APP_ID or MICROSOFT_APP_PASSWORD is not set' };
+
+    const checks = { teams_bot, database, openai, atera_api, knowledge_base };
+    return { status: this.overallStatus(checks), timestamp: new Date().toISOString(), checks };
+  }
+
+  // Without the database the bot can't answer at all; anything else only costs features
+  // (AI analysis, tickets, articles before the first sync), so the bot is degraded but still ready
+  private overallStatus(checks: HealthReport['checks']): OverallStatus {
+    if (checks.database.status === 'down') return 'unhealthy';
+    return Object.values(checks).every(check => check.status === 'up') ? 'healthy' : 'degraded';
+  }
+
+  private async checkLanguageModel(): Promise<HealthCheck> {
+    const detail = `${llmProvider.name} (${llmProvider.chatModel})`;
+    if (llmProvider.name === 'openai' && !process.env.OPENAI_API_KEY && !process.env.OPENAI_KEY) {
+      return { status: 'not_configured', latencyMs: null, detail: 'OPENAI_API_KEY is not set' };
+    }
+    return this.probe(() => llmProvider.ping(), detail);
+  }
+
+  // The sync time comes from the database so it survives restarts; the error count is only
+  // known for a sync this process ran
+  private async checkKnowledgeBase(): Promise<KnowledgeBaseCheck> {
+    const totals = { articles: 0, lastSyncedAt: null as Date | null };
+    const check = await this.probe(async () => {
+      const result = await db.execute(sql`
+        select count(*) filter (where is_active = true)::int as total, max(last_synced_at) as last_synced_at
+        from knowledge_base_articles
+      `);
+      const row = result.rows[0] as { total: number; last_synced_at: string | Date | null };
+      totals.articles = Number(row.total);
+      totals.lastSyncedAt = row.last_synced_at ? new Date(row.last_synced_at) : null;
+    });
+    if (check.status === 'down') {
+      return { ...check, articles: null, lastSyncTime: null, lastSyncAgeMinutes: null };
+    }
+
+    const { articles, lastSyncedAt: syncedAt } = totals;
+    const lastSyncAgeMinutes = syncedAt ? Math.round((Date.now() - syncedAt.getTime()) / 60000) : null;
+    const lastSync = dailyKnowledgeBaseSync.lastCompletedSync;
+    const errors = lastSync && syncedAt && lastSync.lastSyncTime.getTime() === syncedAt.getTime() ? lastSync.errors.length : 0;
+    const staleAfterMinutes = dailyKnowledgeBaseSync.intervalHours * 2 * 60;
+    const syncNote = lastSyncAgeMinutes === null
+      ? 'no sync has finished yet'
+      : `last synced ${lastSyncAgeMinutes} minutes ago${errors > 0 ? ` with ${errors} errors` : ''}`;
+
+    // A fresh deploy has no articles until its first sync; the bot still answers (without
+    // articles), so that is degraded rather than a reason to keep the instance out of rotation
+    let status: CheckStatus = 'up';
+    if (articles === 0 || (lastSyncAgeMinutes !== null && lastSyncAgeMinutes > staleAfterMinutes)) {
+      status = 'degraded';
+    }
+    return {
+      status,
+      latencyMs: check.latencyMs,
+      detail: `${articles} active articles, ${syncNote}`,
+      articles,
+      lastSyncTime: syncedAt ? syncedAt.toISOString() : null,
+      lastSyncAgeMinutes,
+    };
+  }
+
+  // Times one call, failing it if it takes longer than the probe timeout
+  private async probe(call: () => Promise<void>, detail?: string): Promise<HealthCheck> {
+    const started = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ProbeTimeoutError(this.probeTimeoutMs)), this.probeTimeoutMs);
+      });
+      await Promise.race([call(), timeout]);
+      return { status: 'up', latencyMs: Date.now() - started, ...(detail ? { detail } : {}) };
+    } catch (error) {
+      return { status: 'down', latencyMs: Date.now() - started, ...(detail ? { detail } : {}), error: errorMessage(error) };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const healthMonitor = new HealthMonitor();
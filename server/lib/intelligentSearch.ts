@@ -1,6 +1,6 @@
-import OpenAI from "openai";
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { llmProvider } from "./llmProvider";
+import { generateStructured } from "./structuredOutput";
+import { searchKeywordsSchema } from "./llmSchemas";
 
 export interface SearchKeywords {
   primary: string[];
@@ -10,7 +10,6 @@ export interface SearchKeywords {
 
 export class IntelligentSearchEngine {
   async extractSearchKeywords(userQuery: string): Promise<SearchKeywords> {
-    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
     const prompt = `Extract the most relevant search keywords from this IT support question. Focus on technical terms, software names, and core concepts that would appear in knowledge base articles.
 
 User Question: "${userQuery}"
@@ -28,20 +27,13 @@ Examples:
 - "VPN connection keeps dropping" → primary: ["vpn", "connection", "disconnect"], secondary: ["network", "remote", "access"]`;
 
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" },
-        temperature: 0.1,
-        max_tokens: 300,
-      });
-
-      const result = response.choices[0].message.content;
-      if (!result) {
-        throw new Error('No response from OpenAI');
-      }
-
-      return JSON.parse(result);
+      return await generateStructured(
+        llmProvider,
+        [{ role: "user", content: prompt }],
+        searchKeywordsSchema,
+        'Search keywords',
+        { temperature: 0.1, maxTokens: 300 }
+      );
     } catch (error) {
       console.error('Keyword extraction failed:', error);
       // Fallback to simple word extraction
@@ -0,0 +1,213 @@
+import { sql } from 'drizzle-orm';
+import { db } from '../db.js';
+import { semanticSearchEngine } from './semanticSearch.js';
+import { reciprocalRankFusion, maxFusionScore } from './rankFusion.js';
+
+export type RetrieverName = 'lexical' | 'semantic';
+
+export interface RetrievedArticle {
+  articleId: string;
+  title: string;
+  url: string; // deep link to the matched section when the article has an anchor for it
+  excerpt: string;
+  sectionHeading?: string | null;
+  sectionContent?: string;
+  relevanceScore: number;
+  category: string;
+  lastUpdated?: Date | null;
+  matchedBy: RetrieverName[];
+}
+
+// A single retriever's candidate article section with its native score (ts_rank_cd or cosine similarity)
+export interface ScoredCandidate {
+  chunkId: number;
+  articleId: string;
+  title: string;
+  url: string;
+  heading: string | null;
+  anchor: string | null;
+  content: string;
+  lastUpdated?: Date | null;
+  score: number;
+}
+
+export interface HybridSearchResult {
+  lexical: ScoredCandidate[];
+  semantic: ScoredCandidate[];
+  fused: RetrievedArticle[];
+}
+
+interface LexicalRow {
+  chunk_id: number;
+  article_id: string;
+  title: string;
+  url: string;
+  heading: string | null;
+  anchor: string | null;
+  content: string;
+  last_updated: Date | null;
+  rank: number;
+}
+
+export class KnowledgeBaseRetriever {
+  private lexicalWeight = parseFloat(process.env.RETRIEVAL_LEXICAL_WEIGHT || '1');
+  private semanticWeight = parseFloat(process.env.RETRIEVAL_SEMANTIC_WEIGHT || '1');
+  private rrfK = parseInt(process.env.RETRIEVAL_RRF_K || '60', 10);
+  private candidatesPerRetriever = parseInt(process.env.RETRIEVAL_CANDIDATES || '20', 10);
+  private minLexicalRank = parseFloat(process.env.RETRIEVAL_MIN_LEXICAL_RANK || '0.01');
+
+  async retrieve(query: string, limit = 3): Promise<RetrievedArticle[]> {
+    const { fused } = await this.hybridSearch(query, limit);
+    return fused;
+  }
+
+  // Full-text matching catches exact product names and error codes, embeddings catch
+  // paraphrases; reciprocal rank fusion merges the two section rankings, then each
+  // article is represented by its best-ranked section
+  async hybridSearch(query: string, limit = 3): Promise<HybridSearchResult> {
+    const [lexical, semantic] = await Promise.all([
+      this.lexicalSearch(query, this.candidatesPerRetriever).catch(error => {
+        console.error('Lexical search failed:', error);
+        return [] as ScoredCandidate[];
+      }),
+      this.semanticSearch(query, this.candidatesPerRetriever).catch(error => {
+        console.error('Semantic search failed:', error);
+        return [] as ScoredCandidate[];
+      }),
+    ]);
+
+    const fusedItems = reciprocalRankFusion<ScoredCandidate>([
+      { name: 'lexical', weight: this.lexicalWeight, items: lexical },
+      { name: 'semantic', weight: this.semanticWeight, items: semantic },
+    ], candidate => String(candidate.chunkId), this.rrfK);
+
+    const bestPossible = maxFusionScore([this.lexicalWeight, this.semanticWeight], this.rrfK);
+
+    // Sections arrive best-first, so the first one seen for an article is its best
+    const bestPerArticle = new Map<string, { item: ScoredCandidate; score: number; matchedBy: Set<RetrieverName> }>();
+    for (const { item, score, ranks } of fusedItems) {
+      const entry = bestPerArticle.get(item.articleId) || { item, score, matchedBy: new Set<RetrieverName>() };
+      (Object.keys(ranks) as RetrieverName[]).forEach(name => entry.matchedBy.add(name));
+      bestPerArticle.set(item.articleId, entry);
+    }
+
+    const topArticles = Array.from(bestPerArticle.values()).slice(0, limit);
+    const fused = topArticles.map(({ item, score, matchedBy }) =>
+      this.toRetrievedArticle(
+        item,
+        Math.round((score / bestPossible) * 100),
+        Array.from(matchedBy)
+      )
+    );
+
+    console.log(`Hybrid search for "${query}": ${lexical.length} lexical, ${semantic.length} semantic candidates`,
+      topArticles.map(({ item, score, matchedBy }) => ({
+        title: item.title,
+        section: item.heading,
+        score: score.toFixed(4),
+        matchedBy: Array.from(matchedBy),
+      }))
+    );
+
+    return { lexical, semantic, fused };
+  }
+
+  async semanticSearch(query: string, limit: number): Promise<ScoredCandidate[]> {
+    const matches = await semanticSearchEngine.search(query, limit);
+    return matches.map(match => ({
+      chunkId: match.chunkId,
+      articleId: match.articleId,
+      title: match.title,
+      url: match.url,
+      heading: match.heading,
+      anchor: match.anchor,
+      content: match.content,
+      lastUpdated: match.lastUpdated,
+      score: match.similarity,
+    }));
+  }
+
+  // Postgres full-text search over article sections, using each section's generated
+  // search_vector (see knowledgeBaseChunks) and its GIN index
+  async lexicalSearch(query: string, limit: number): Promise<ScoredCandidate[]> {
+    const tsQuery = this.buildTsQuery(query);
+    if (!tsQuery) {
+      console.log('No searchable terms in query, skipping lexical search');
+      return [];
+    }
+
+    const result = await db.execute(sql`
+      SELECT c.id AS chunk_id, a.article_id, a.title, a.url, c.heading, c.anchor, c.content, a.last_updated,
+        ts_rank_cd(c.search_vector, query, 32) AS rank
+      FROM knowledge_base_chunks c
+      INNER JOIN knowledge_base_articles a ON a.article_id = c.article_id
+      CROSS JOIN to_tsquery('english', ${tsQuery}) query
+      WHERE a.is_active = true AND c.search_vector @@ query
+      ORDER BY rank DESC, a.last_updated DESC NULLS LAST
+      LIMIT ${limit}
+    `);
+
+    return (result.rows as unknown as LexicalRow[])
+      .filter(row => Number(row.rank) >= this.minLexicalRank)
+      .map(row => ({
+        chunkId: row.chunk_id,
+        articleId: row.article_id,
+        title: row.title,
+        url: row.url,
+        heading: row.heading,
+        anchor: row.anchor,
+        content: row.content,
+        lastUpdated: row.last_updated,
+        score: Number(row.rank),
+      }));
+  }
+
+  // The words full-text search matches on, as recorded with each interaction
+  searchTerms(query: string): string[] {
+    const terms = query
+      .toLowerCase()
+      .split(/\s+/)
+      .map(term => term.replace(/[^a-z0-9]/g, ''))
+      .filter(term => term.length > 1);
+
+    return Array.from(new Set(terms));
+  }
+
+  // OR the query terms together; ts_rank_cd still favours documents matching more of them
+  private buildTsQuery(query: string): string {
+    return this.searchTerms(query).join(' | ');
+  }
+
+  private toRetrievedArticle(
+    candidate: ScoredCandidate,
+    relevanceScore: number,
+    matchedBy: RetrieverName[]
+  ): RetrievedArticle {
+    const content = (candidate.content || '').trim();
+    const cleanContent = content.replace(/\s+/g, ' ');
+    const excerpt = cleanContent.length > 200
+      ? cleanContent.substring(0, 200) + '...'
+      : cleanContent || 'Click to view the full article for detailed instructions.';
+
+    const articleUrl = candidate.url || `https://helpdesk.anthemproperties.com/knowledgebase/article/${candidate.articleId}`;
+    // Only link into the article when the section heading carries an id to jump to
+    const url = candidate.anchor && !articleUrl.includes('#')
+      ? `${articleUrl}#${encodeURIComponent(candidate.anchor)}`
+      : articleUrl;
+
+    return {
+      articleId: candidate.articleId,
+      title: candidate.title || 'Knowledge Base Article',
+      url,
+      excerpt,
+      sectionHeading: candidate.heading,
+      sectionContent: content,
+      relevanceScore,
+      category: 'Knowledge Base',
+      lastUpdated: candidate.lastUpdated,
+      matchedBy,
+    };
+  }
+}
+
+export const knowledgeBaseRetriever = new KnowledgeBaseRetriever();
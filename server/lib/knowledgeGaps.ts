@@ -0,0 +1,213 @@
+import { storage } from "../storage.js";
+import type { SupportInteraction } from "@shared/schema";
+import { cosineSimilarity, type EmbeddingProvider } from "./embeddings";
+import { embeddingProvider } from "./llmProvider";
+
+export type GapClusteringMethod = 'embedding' | 'keyword';
+
+// A topic employees keep asking about that the knowledge base doesn't answer
+export interface KnowledgeGap {
+  topic: string;
+  queries: number;
+  noArticles: number; // search found nothing to show
+  notHelpful: number; // articles were shown but the answer got a thumbs down
+  users: number;
+  lastSeen: Date | null;
+  sampleQueries: string[];
+  interactionIds: number[];
+}
+
+export interface KnowledgeGapReport {
+  since: Date;
+  generatedAt: Date;
+  method: GapClusteringMethod;
+  interactions: number;
+  gaps: KnowledgeGap[];
+}
+
+interface GapQuery {
+  interaction: SupportInteraction;
+  text: string;
+  terms: string[];
+}
+
+interface Cluster {
+  members: GapQuery[];
+  centroid: number[];
+}
+
+const stopWords = new Set([
+  'how', 'do', 'does', 'can', 'cant', 'to', 'the', 'a', 'an', 'is', 'are', 'was', 'were', 'my', 'me', 'you', 'your',
+  'it', 'its', 'this', 'that', 'with', 'for', 'on', 'at', 'by', 'from', 'of', 'in', 'and', 'or', 'but', 'not', 'no',
+  'what', 'why', 'when', 'where', 'get', 'getting', 'got', 'im', 'ive', 'have', 'has', 'need', 'help', 'please',
+  'want', 'be', 'been', 'any', 'some', 'there', 'again', 'still', 'our', 'we', 'us', 'just', 'keep',
+]);
+
+const sampleQueryLimit = 5;
+
+function queryTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(term => term.length > 2 && !stopWords.has(term));
+}
+
+function stem(term: string): string {
+  return term.replace(/(ing|ed|es|s)$/, '') || term;
+}
+
+// Employees' queries end up in a spreadsheet, so text a spreadsheet would run as a formula
+// gets a leading apostrophe and is quoted
+function csvField(value: string | number): string {
+  if (typeof value === 'number') return String(value);
+  const formula = /^[=+\-@\t\r]/.test(value);
+  const text = formula ? `'${value}` : value;
+  return formula || /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export class KnowledgeGapAnalyzer {
+  private keywordThreshold = 0.5;
+  private maxInteractions = 2000;
+
+  constructor(private provider: EmbeddingProvider = embeddingProvider) {}
+
+  // Hashed embeddings score paraphrases lower than model embeddings do
+  private get embeddingThreshold(): number {
+    const configured = parseFloat(process.env.KNOWLEDGE_GAP_SIMILARITY || '');
+    if (!isNaN(configured)) return configured;
+    return this.provider.model.startsWith('local-hash') ? 0.5 : 0.65;
+  }
+
+  // Zero-result and thumbs-down queries from the last `days` days, grouped into topics, most frequent first
+  async analyze(days = 30): Promise<KnowledgeGapReport> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const [noArticles, notHelpful] = await Promise.all([
+      storage.findInteractions({ from: since, articlesShown: false }, 0, this.maxInteractions),
+      storage.findInteractions({ from: since, helpfulness: 'not_helpful' }, 0, this.maxInteractions),
+    ]);
+
+    // Refusals never reach search, so they say nothing about the knowledge base
+    const interactions = new Map<number, SupportInteraction>();
+    for (const interaction of [...noArticles.interactions, ...notHelpful.interactions]) {
+      if (interaction.responseMode !== 'refused') interactions.set(interaction.id, interaction);
+    }
+
+    const queries: GapQuery[] = Array.from(interactions.values())
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0))
+      .map(interaction => {
+        const text = interaction.userQuery.trim().replace(/\s+/g, ' ');
+        return { interaction, text, terms: queryTerms(text) };
+      });
+
+    const { vectors, method } = await this.vectorize(queries);
+    const threshold = method === 'embedding' ? this.embeddingThreshold : this.keywordThreshold;
+    const clusters = this.cluster(queries, vectors, threshold);
+
+    const gaps = clusters
+      .map(cluster => this.describe(cluster))
+      .sort((a, b) => b.queries - a.queries || (b.lastSeen?.getTime() || 0) - (a.lastSeen?.getTime() || 0));
+
+    console.log(`📉 Knowledge gaps: ${queries.length} queries since ${since.toISOString()} grouped into ${gaps.length} topics (${method})`);
+    return { since, generatedAt: new Date(), method, interactions: queries.length, gaps };
+  }
+
+  toCsv(report: KnowledgeGapReport): string {
+    const header = ['rank', 'topic', 'queries', 'no_articles', 'not_helpful', 'users', 'last_seen', 'sample_queries'];
+    const rows = report.gaps.map((gap, index) => [
+      index + 1,
+      gap.topic,
+      gap.queries,
+      gap.noArticles,
+      gap.notHelpful,
+      gap.users,
+      gap.lastSeen ? gap.lastSeen.toISOString() : '',
+      gap.sampleQueries.join(' | '),
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+  }
+
+  // Embeddings group paraphrases together; when the provider is unavailable fall back to
+  // bag-of-words vectors so the report still works, just with coarser topics
+  private async vectorize(queries: GapQuery[]): Promise<{ vectors: number[][]; method: GapClusteringMethod }> {
+    if (queries.length === 0) return { vectors: [], method: 'embedding' };
+
+    try {
+      const unique = Array.from(new Set(queries.map(query => query.text.toLowerCase())));
+      const embeddings = await this.provider.embed(unique);
+      const byText = new Map(unique.map((text, index) => [text, embeddings[index]]));
+      return { vectors: queries.map(query => byText.get(query.text.toLowerCase())!), method: 'embedding' };
+    } catch (error) {
+      console.error('Knowledge gap embeddings failed, clustering by keywords instead:', error);
+    }
+
+    const vocabulary = new Map<string, number>();
+    queries.forEach(query => query.terms.map(stem).forEach(term => {
+      if (!vocabulary.has(term)) vocabulary.set(term, vocabulary.size);
+    }));
+    const vectors = queries.map(query => {
+      const vector = new Array(vocabulary.size).fill(0);
+      query.terms.map(stem).forEach(term => { vector[vocabulary.get(term)!] = 1; });
+      return vector;
+    });
+    return { vectors, method: 'keyword' };
+  }
+
+  // Single pass: each query joins the most similar topic above the threshold or starts a new one
+  private cluster(queries: GapQuery[], vectors: number[][], threshold: number): Cluster[] {
+    const clusters: Cluster[] = [];
+
+    queries.forEach((query, index) => {
+      const vector = vectors[index];
+      let best: Cluster | undefined;
+      let bestSimilarity = threshold;
+      for (const cluster of clusters) {
+        const similarity = cosineSimilarity(vector, cluster.centroid);
+        if (similarity >= bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      }
+
+      if (!best) {
+        clusters.push({ members: [query], centroid: [...vector] });
+        return;
+      }
+
+      // Running mean keeps the centroid representative as the topic grows
+      const size = best.members.length;
+      best.centroid = best.centroid.map((value, i) => (value * size + vector[i]) / (size + 1));
+      best.members.push(query);
+    });
+
+    return clusters;
+  }
+
+  private describe(cluster: Cluster): KnowledgeGap {
+    const termCounts = new Map<string, number>();
+    for (const member of cluster.members) {
+      new Set(member.terms).forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+    }
+    const topTerms = Array.from(termCounts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, 3)
+      .map(([term]) => term);
+
+    const newestFirst = [...cluster.members].reverse();
+    const interactions = newestFirst.map(member => member.interaction);
+    const sampleQueries = Array.from(new Set(newestFirst.map(member => member.text))).slice(0, sampleQueryLimit);
+
+    return {
+      topic: topTerms.join(', ') || sampleQueries[0],
+      queries: cluster.members.length,
+      noArticles: interactions.filter(interaction => !Array.isArray(interaction.foundArticles) || interaction.foundArticles.length === 0).length,
+      notHelpful: interactions.filter(interaction => interaction.wasHelpful === false).length,
+      users: new Set(interactions.map(interaction => interaction.userId)).size,
+      lastSeen: interactions[0].createdAt,
+      sampleQueries,
+      interactionIds: interactions.map(interaction => interaction.id),
+    };
+  }
+}
+
+export const knowledgeGapAnalyzer = new KnowledgeGapAnalyzer();
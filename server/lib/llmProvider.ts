@@ -0,0 +1,292 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import { readFileSync } from "fs";
+import { LocalHashEmbeddingProvider, createEmbeddingProvider } from "./embeddings.js";
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // ask the model for a single JSON object
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  // Yields the response text in pieces as the model produces it
+  streamChat(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<string>;
+  embed(texts: string[]): Promise<number[][]>;
+  // Cheapest call that proves the provider is reachable and the credentials work
+  ping(): Promise<void>;
+}
+
+export class LLMResponseError extends Error {
+  constructor(message: string, public readonly provider: string) {
+    super(message);
+    this.name = 'LLMResponseError';
+  }
+}
+
+// OpenAI, Azure OpenAI and local servers such as Ollama all speak the same chat
+// completions API; subclasses only differ in how the client is constructed.
+abstract class OpenAICompatibleProvider implements LLMProvider {
+  abstract readonly name: string;
+  private clientInstance: OpenAI | null = null;
+  private embeddingBatchSize = 64;
+
+  constructor(readonly chatModel: string, readonly embeddingModel: string) {}
+
+  protected abstract createClient(): OpenAI;
+
+  // Created on first use so a missing key only fails the calls that need it, not startup
+  private get client(): OpenAI {
+    if (!this.clientInstance) {
+      this.clientInstance = this.createClient();
+    }
+    return this.clientInstance;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    const content = response.choices[0]?.message.content;
+    if (!content) {
+      throw new LLMResponseError(`No response from ${this.name} (${this.chatModel})`, this.name);
+    }
+    return content;
+  }
+
+  async *streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      stream: true,
+      ...(options.json ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.embeddingBatchSize) {
+      const batch = texts.slice(i, i + this.embeddingBatchSize);
+      const response = await this.client.embeddings.create({
+        model: this.embeddingModel,
+        input: batch,
+      });
+      // The API may return items out of order, so place them by index
+      const ordered = [...response.data].sort((a, b) => a.index - b.index);
+      vectors.push(...ordered.map(item => item.embedding));
+    }
+
+    return vectors;
+  }
+
+  async ping(): Promise<void> {
+    await this.client.models.list();
+  }
+}
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly name = 'openai';
+
+  constructor(
+    chatModel = process.env.LLM_CHAT_MODEL || 'gpt-4o',
+    embeddingModel = process.env.EMBEDDING_MODEL || 'text-embedding-3-small'
+  ) {
+    super(chatModel, embeddingModel);
+  }
+
+  protected createClient(): OpenAI {
+    return new OpenAI({ apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_KEY });
+  }
+}
+
+// Azure routes requests by deployment name, so the "models" here are deployment names
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  readonly name = 'azure';
+
+  constructor(
+    chatDeployment = process.env.AZURE_OPENAI_CHAT_DEPLOYMENT || 'gpt-4o',
+    embeddingDeployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || 'text-embedding-3-small'
+  ) {
+    super(chatDeployment, embeddingDeployment);
+  }
+
+  protected createClient(): OpenAI {
+    return new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+    });
+  }
+}
+
+// Any OpenAI-compatible server, e.g. Ollama (`ollama serve` exposes /v1) or vLLM
+export class LocalLLMProvider extends OpenAICompatibleProvider {
+  readonly name = 'local';
+
+  constructor(
+    chatModel = process.env.LOCAL_LLM_MODEL || 'llama3.1',
+    embeddingModel = process.env.LOCAL_LLM_EMBEDDING_MODEL || 'nomic-embed-text'
+  ) {
+    super(chatModel, embeddingModel);
+  }
+
+  protected createClient(): OpenAI {
+    return new OpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    });
+  }
+}
+
+export interface ScriptedResponse {
+  match: RegExp | string; // tested against the concatenated message contents
+  response: string | object;
+}
+
+// Offline stand-in for a real model: answers from a script of pattern → response
+// rules, falling back to canned answers shaped like each prompt in the bot expects.
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly chatModel = 'scripted';
+  private embeddings = new LocalHashEmbeddingProvider();
+
+  constructor(
+    private script: ScriptedResponse[] = [],
+    private streamDelayMs = parseInt(process.env.LLM_FAKE_STREAM_DELAY_MS || '0', 10)
+  ) {}
+
+  get embeddingModel(): string {
+    return this.embeddings.model;
+  }
+
+  static fromFile(path: string): ScriptedLLMProvider {
+    const rules: { match: string; response: string | object }[] = JSON.parse(readFileSync(path, 'utf-8'));
+    return new ScriptedLLMProvider(rules.map(rule => ({ match: new RegExp(rule.match, 'i'), response: rule.response })));
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const prompt = messages.map(message => message.content).join('\n');
+
+    const rule = [...this.script, ...defaultScript(prompt)].find(candidate =>
+      typeof candidate.match === 'string' ? prompt.includes(candidate.match) : candidate.match.test(prompt)
+    );
+    const response = rule ? rule.response : 'This is a scripted response from the offline test provider.';
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  // Replays the scripted answer in small pieces, with a pause between them if configured
+  async *streamChat(messages: ChatMessage[], options: ChatOptions = {}): AsyncIterable<string> {
+    const text = await this.chat(messages, options);
+    for (let i = 0; i < text.length; i += 24) {
+      if (this.streamDelayMs > 0) await new Promise(resolve => setTimeout(resolve, this.streamDelayMs));
+      yield text.substring(i, i + 24);
+    }
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return this.embeddings.embed(texts);
+  }
+
+  async ping(): Promise<void> {}
+}
+
+function defaultScript(prompt: string): ScriptedResponse[] {
+  // Cite the first source when the prompt offered any, so citation rendering can be exercised offline
+  const citation = /^\[1\] Title:/m.test(prompt) ? [1] : [];
+  const marker = citation.length > 0 ? ' [1]' : '';
+
+  return [
+    {
+      match: /Classify the employee's message/,
+      response: { category: 'support', reason: 'Scripted classification' },
+    },
+    {
+      match: /technical analysis in JSON/i,
+      response: {
+        issueDiagnosis: `Scripted diagnosis for offline testing${marker}.`,
+        immediateActions: [
+          {
+            step: 'Restart the affected application',
+            description: `Close the application completely and open it again${marker}.`,
+            expectedOutcome: 'The application starts without the error',
+            verificationMethod: 'Repeat the action that failed',
+            difficulty: 'easy',
+            citations: citation,
+          },
+          {
+            step: 'Restart your computer',
+            description: 'Save your work and restart to clear any stuck processes.',
+            expectedOutcome: 'A clean session',
+            verificationMethod: 'Check whether the issue comes back',
+            difficulty: 'easy',
+            citations: [],
+          },
+        ],
+        expertRecommendations: ['Keep the application up to date'],
+        severity: 'low',
+        estimatedResolutionTime: '10 minutes',
+        followUpQuestions: ['When did the issue start?'],
+      },
+    },
+    {
+      match: /follow-up questions/i,
+      response: { questions: ['When did the issue start?', 'Does it happen on another device?', 'Did anything change recently?'] },
+    },
+    {
+      match: /"primary"/,
+      response: { primary: ['issue'], secondary: [], context: 'Scripted keyword extraction' },
+    },
+    {
+      match: /keywords/i,
+      response: { keywords: ['scripted', 'offline', 'keywords'] },
+    },
+  ];
+}
+
+export function createLLMProvider(): LLMProvider {
+  const configured = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
+  switch (configured) {
+    case 'azure':
+      return new AzureOpenAIProvider();
+    case 'local':
+    case 'ollama':
+      return new LocalLLMProvider();
+    case 'fake':
+      return process.env.LLM_FAKE_SCRIPT
+        ? ScriptedLLMProvider.fromFile(process.env.LLM_FAKE_SCRIPT)
+        : new ScriptedLLMProvider();
+    case 'openai':
+      return new OpenAIProvider();
+    default:
+      console.warn(`⚠️ Unknown LLM_PROVIDER "${configured}", using OpenAI`);
+      return new OpenAIProvider();
+  }
+}
+
+export const llmProvider = createLLMProvider();
+export const embeddingProvider = createEmbeddingProvider(llmProvider);
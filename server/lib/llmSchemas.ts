@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+// Shapes the bot relies on from model responses. Missing cosmetic fields get defaults;
+// anything the cards or ticket flow depend on is required so the response gets repaired.
+
+const lowercase = (value: unknown) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+
+export const actionItemSchema = z.object({
+  step: z.string().min(1),
+  description: z.string().min(1),
+  expectedOutcome: z.string().default(''),
+  verificationMethod: z.string().default(''),
+  difficulty: z.preprocess(lowercase, z.enum(['easy', 'medium', 'advanced'])).catch('medium'),
+  citations: z.array(z.coerce.number().int()).default([]),
+});
+
+export const technicalAnalysisSchema = z.object({
+  issueDiagnosis: z.string().min(1),
+  immediateActions: z.array(actionItemSchema).min(1),
+  expertRecommendations: z.array(z.string()).default([]),
+  severity: z.preprocess(lowercase, z.enum(['low', 'medium', 'high', 'critical'])),
+  estimatedResolutionTime: z.string().default('Unknown'),
+  followUpQuestions: z.array(z.string()).optional(),
+});
+
+export const searchKeywordsSchema = z.object({
+  primary: z.array(z.string()).min(1),
+  secondary: z.array(z.string()).default([]),
+  context: z.string().default(''),
+});
+
+// Article keyword generation, used by the daily sync and the bulk keywords endpoint
+export const keywordGenerationSchema = z.object({
+  keywords: z.array(z.string()).min(1),
+});
+
+export const followUpQuestionsSchema = z.object({
+  questions: z.array(z.string()).min(1),
+});
+
+export const inputClassificationSchema = z.object({
+  category: z.preprocess(lowercase, z.enum(['support', 'off_topic', 'abusive', 'injection'])),
+  reason: z.string().default(''),
+});
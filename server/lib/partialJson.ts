@@ -0,0 +1,53 @@
+// Best-effort parse of a JSON document that is still being streamed, e.g.
+// '{"issueDiagnosis": "The VPN cli' → { issueDiagnosis: 'The VPN cli' }.
+// Open strings, arrays and objects are closed; a trailing member that can't be
+// completed (a key without a value, half a number or literal) is dropped.
+export function parsePartialJson(text: string): unknown {
+  let candidate = text.trim();
+
+  for (let attempt = 0; attempt < 5 && candidate; attempt++) {
+    const { closed, lastComma } = closeOpenStructures(candidate);
+    try {
+      return JSON.parse(closed);
+    } catch {
+      if (lastComma <= 0) return undefined;
+      candidate = candidate.substring(0, lastComma);
+    }
+  }
+
+  return undefined;
+}
+
+function closeOpenStructures(text: string): { closed: string; lastComma: number } {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastComma = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') closers.push('}');
+    else if (char === '[') closers.push(']');
+    else if (char === '}' || char === ']') closers.pop();
+    else if (char === ',') lastComma = i;
+  }
+
+  let closed = text;
+  if (inString) {
+    // A dangling backslash would escape the closing quote
+    closed = (escaped ? closed.slice(0, -1) : closed) + '"';
+  } else {
+    closed = closed.replace(/[\s,:]+$/, '');
+  }
+
+  return { closed: closed + closers.reverse().join(''), lastComma };
+}
@@ -0,0 +1,60 @@
+import * as cheerio from "cheerio";
+
+// Phrases that try to steer the model rather than describe an IT problem. Used both on
+// knowledge base content going into prompts and by the input classifier's rule check.
+export const injectionPatterns: RegExp[] = [
+  /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}\b(?:previous|prior|above|earlier|all|any|your|system)\b[^.\n]{0,20}\b(?:instructions?|prompts?|rules|directions|guidelines)\b/i,
+  /\b(?:reveal|show|print|repeat|output|tell me)\b[^.\n]{0,30}\b(?:system prompt|your (?:instructions|prompt|rules|guidelines))\b/i,
+  /\b(?:from now on,? you|pretend (?:you are|to be)|new instructions\s*:)/i,
+  /\b(?:jailbreak|DAN mode|developer mode)\b/i,
+  /<\|?\/?(?:im_start|im_end|system|endoftext)\|?>/i,
+  // A role prefix alone is common in pasted error output ("System: error 0x80"), so only
+  // count it when what follows is addressed to the model
+  /^\s*(?:system|assistant)\s*:\s*(?:you (?:are|must|will|should)|ignore|disregard|forget|override)\b/im,
+];
+
+export function looksLikeInjection(text: string): boolean {
+  return injectionPatterns.some(pattern => pattern.test(text));
+}
+
+// Removes article markup a reader never sees but a model would: scripts, embeds,
+// comments and elements hidden with attributes or inline styles.
+export function sanitizeArticleHtml(html: string): string {
+  const $ = cheerio.load(`<body>${html}</body>`);
+
+  $('script, style, noscript, template, iframe, object, embed, form').remove();
+  $('[hidden], [aria-hidden="true"]').remove();
+  $('[style]').each((_, element) => {
+    const style = ($(element).attr('style') || '').toLowerCase().replace(/\s+/g, '');
+    if (/display:none|visibility:hidden|font-size:0(?![.\d])|opacity:0(?![.\d])/.test(style)) {
+      $(element).remove();
+    }
+  });
+  $('*').contents().filter((_, node) => node.type === 'comment').remove();
+
+  return $('body').html() || '';
+}
+
+// Last pass over knowledge base text before it is placed in a prompt: strips
+// invisible characters and replaces lines that read as instructions to the model.
+export function sanitizeForPrompt(content: string): string {
+  const text = /<[a-z!/][^>]*>/i.test(content)
+    ? cheerio.load(`<body>${sanitizeArticleHtml(content)}</body>`)('body').text()
+    : content;
+
+  let removed = 0;
+  const lines = text
+    // Zero-width and bidirectional control characters can hide text from reviewers
+    .replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, '')
+    .split('\n')
+    .map(line => {
+      if (!looksLikeInjection(line)) return line;
+      removed++;
+      return '[instruction-like text removed]';
+    });
+
+  if (removed > 0) {
+    console.warn(`🛡️ Removed ${removed} instruction-like line(s) from knowledge base content`);
+  }
+  return lines.join('\n');
+}
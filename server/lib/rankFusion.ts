@@ -0,0 +1,42 @@
+// Reciprocal rank fusion (Cormack et al., 2009): each list contributes
+// weight / (k + rank) for every item it contains, so items ranked well by
+// several retrievers rise to the top without having to calibrate their scores.
+
+export interface RankedList<T> {
+  name: string;
+  weight: number;
+  items: T[];
+}
+
+export interface FusedItem<T> {
+  item: T;
+  score: number;
+  ranks: Record<string, number>; // 1-based rank in each list that contained the item
+}
+
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  getKey: (item: T) => string,
+  k = 60
+): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T>>();
+
+  for (const list of lists) {
+    list.items.forEach((item, index) => {
+      const key = getKey(item);
+      const rank = index + 1;
+      const entry = fused.get(key) || { item, score: 0, ranks: {} };
+
+      entry.score += list.weight / (k + rank);
+      entry.ranks[list.name] = rank;
+      fused.set(key, entry);
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+// Best achievable score: first place in every list
+export function maxFusionScore(weights: number[], k = 60): number {
+  return weights.reduce((sum, weight) => sum + weight / (k + 1), 0);
+}
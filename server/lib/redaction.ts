@@ -0,0 +1,148 @@
+// Strips personal data and secrets from user messages before they are sent to the
+// language model or stored. Matches are replaced with a placeholder naming the rule,
+// e.g. "call me on [REDACTED_PHONE]", so the model still knows what was there.
+
+export type RedactionCounts = Record<string, number>;
+
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+  total: number;
+}
+
+interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  // Rewrites a match; returning the match unchanged means it didn't qualify
+  replace: (match: string, ...groups: string[]) => string;
+}
+
+const placeholder = (name: string) => `[REDACTED_${name.toUpperCase()}]`;
+
+// Passwords are only redacted after "is" when the value looks like one, so
+// "my password is expired" is left alone but "my password is Summer2024!" is not.
+// PINs and passcodes are usually just digits, so "my pin is 4821" counts for those.
+function looksLikeSecret(keyword: string, value: string): boolean {
+  if (/^(pin|passcode)$/i.test(keyword) && /^\d{4,8}$/.test(value)) return true;
+  if (value.length < 6) return false;
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(value)).length;
+  return classes >= 2;
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const guidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Order matters: credentials first so "password: 555-123-4567" counts as a password,
+// and cards before phones since a card number contains phone-shaped digit runs
+const builtInRules: RedactionRule[] = [
+  {
+    // "password: x", "password is x", "pin 4821" and "the password for the guest wifi is x"
+    name: 'password',
+    pattern: /\b(pass(?:word|wd|code|phrase)?|pwd|pin)(\s+(?:for|to|on)(?:\s+[^\s:=]+){1,3}?(?:\s*[:=]\s*|\s+is\s+)|\s*[:=]\s*|\s+is\s+|\s+)("[^"]+"|'[^']+'|\S+)/gi,
+    replace: (match, keyword, separator, value) => {
+      const explicit = /[:=]/.test(separator);
+      const bare = value.replace(/^["']|["'.,;!?]$/g, '');
+      if (!explicit && !looksLikeSecret(keyword, bare)) return match;
+      return `${keyword}${separator}${placeholder('password')}`;
+    },
+  },
+  {
+    // Bearer tokens, API keys and connection string secrets
+    name: 'secret',
+    pattern: /\b(?:sk-[A-Za-z0-9_-]{16,}|(?:ghp|gho|xox[bap])[-_][A-Za-z0-9-]{16,}|eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]+|(?:AccountKey|SharedAccessKey|client_secret)=[^;\s]+|[A-Za-z0-9+_-]{32,}={0,2})/g,
+    replace: match => {
+      // Long ids are fine to share: GUIDs and plain hex/number runs (correlation ids, hashes)
+      if (guidPattern.test(match) || /^[0-9a-f-]+$/i.test(match) || !/\d/.test(match) || !/[A-Za-z]/.test(match)) {
+        return match;
+      }
+      return placeholder('secret');
+    },
+  },
+  {
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    replace: () => placeholder('email'),
+  },
+  {
+    name: 'credit_card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replace: match => passesLuhn(match.replace(/\D/g, '')) ? placeholder('credit_card') : match,
+  },
+  {
+    // North American numbers with separators, or international numbers written with a +
+    name: 'phone',
+    pattern: /(?:\+1[\s.-]?)?\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b|\+\d{1,3}(?:[\s.-]?\d){7,12}\b/g,
+    replace: () => placeholder('phone'),
+  },
+];
+
+// REDACTION_PATTERNS holds extra rules as JSON, name → regular expression, e.g.
+// {"employee_id": "\\bAN\\d{6}\\b", "member_id": "\\b[A-Z]{3}\\d{9}\\b"}
+function loadCustomRules(): RedactionRule[] {
+  const configured = process.env.REDACTION_PATTERNS;
+  if (!configured) return [];
+
+  let parsed: Record<string, string>;
+  try {
+    parsed = JSON.parse(configured);
+  } catch (error) {
+    console.warn('⚠️ REDACTION_PATTERNS is not valid JSON, custom redaction rules ignored:', error instanceof Error ? error.message : error);
+    return [];
+  }
+
+  const rules: RedactionRule[] = [];
+  for (const [name, source] of Object.entries(parsed)) {
+    try {
+      rules.push({ name, pattern: new RegExp(source, 'g'), replace: () => placeholder(name) });
+    } catch (error) {
+      console.warn(`⚠️ Skipping redaction rule "${name}":`, error instanceof Error ? error.message : error);
+    }
+  }
+  return rules;
+}
+
+export class Redactor {
+  private rules: RedactionRule[];
+
+  constructor(customRules: RedactionRule[] = loadCustomRules()) {
+    // Custom rules run first so an organisation's own id formats aren't mistaken for phones
+    this.rules = [...customRules, ...builtInRules];
+    if (customRules.length > 0) {
+      console.log(`🔒 Loaded ${customRules.length} custom redaction rules: ${customRules.map(rule => rule.name).join(', ')}`);
+    }
+  }
+
+  redact(text: string): RedactionResult {
+    const counts: RedactionCounts = {};
+    let redacted = text;
+
+    for (const rule of this.rules) {
+      redacted = redacted.replace(rule.pattern, (match: string, ...rest: any[]) => {
+        // String.replace passes the capture groups, then offset and the input string
+        const groups = rest.slice(0, -2).map(group => group ?? '');
+        const replacement = rule.replace(match, ...groups);
+        if (replacement !== match) {
+          counts[rule.name] = (counts[rule.name] || 0) + 1;
+        }
+        return replacement;
+      });
+    }
+
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    return { text: redacted, counts, total };
+  }
+}
+
+export const redactor = new Redactor();
@@ -0,0 +1,95 @@
+import { db } from "../db";
+import { knowledgeBaseArticles, knowledgeBaseChunks } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import { cosineSimilarity, type EmbeddingProvider } from "./embeddings";
+import { embeddingProvider } from "./llmProvider";
+
+// One article section, scored against the query
+export interface SemanticMatch {
+  chunkId: number;
+  articleId: string;
+  title: string;
+  url: string;
+  heading: string | null;
+  anchor: string | null;
+  content: string;
+  lastUpdated: Date | null;
+  searchKeywords: string[] | null;
+  similarity: number;
+}
+
+interface IndexedChunk extends Omit<SemanticMatch, 'similarity'> {
+  embedding: number[] | null;
+}
+
+export class SemanticSearchEngine {
+  private index: IndexedChunk[] | null = null;
+  private indexLoadedAt = 0;
+  private indexTtlMs = 10 * 60 * 1000; // Reload embeddings every 10 minutes
+  private minSimilarity = parseFloat(process.env.SEMANTIC_MIN_SIMILARITY || '0.3');
+
+  constructor(private provider: EmbeddingProvider = embeddingProvider) {}
+
+  async search(query: string, limit = 5): Promise<SemanticMatch[]> {
+    const index = await this.loadIndex();
+    if (index.length === 0) {
+      console.log('Semantic search skipped: no article sections embedded yet');
+      return [];
+    }
+
+    const [queryEmbedding] = await this.provider.embed([query]);
+
+    const matches = index
+      .map(({ embedding, ...chunk }) => ({
+        ...chunk,
+        similarity: cosineSimilarity(queryEmbedding, embedding || []),
+      }))
+      .filter(match => match.similarity >= this.minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+
+    console.log(`Semantic search for "${query}" (${this.provider.model}):`,
+      matches.map(match => ({ title: match.title, section: match.heading, similarity: match.similarity.toFixed(3) }))
+    );
+    return matches;
+  }
+
+  // Called after a sync so new embeddings are picked up immediately
+  invalidate(): void {
+    this.index = null;
+  }
+
+  private async loadIndex(): Promise<IndexedChunk[]> {
+    if (this.index && Date.now() - this.indexLoadedAt < this.indexTtlMs) {
+      return this.index;
+    }
+
+    const rows = await db
+      .select({
+        chunkId: knowledgeBaseChunks.id,
+        articleId: knowledgeBaseArticles.articleId,
+        title: knowledgeBaseArticles.title,
+        url: knowledgeBaseArticles.url,
+        heading: knowledgeBaseChunks.heading,
+        anchor: knowledgeBaseChunks.anchor,
+        content: knowledgeBaseChunks.content,
+        lastUpdated: knowledgeBaseArticles.lastUpdated,
+        searchKeywords: knowledgeBaseArticles.searchKeywords,
+        embedding: knowledgeBaseChunks.embedding,
+      })
+      .from(knowledgeBaseChunks)
+      .innerJoin(knowledgeBaseArticles, eq(knowledgeBaseChunks.articleId, knowledgeBaseArticles.articleId))
+      .where(and(
+        eq(knowledgeBaseArticles.isActive, true),
+        // Vectors from a different model aren't comparable with the query embedding
+        eq(knowledgeBaseChunks.model, this.provider.model)
+      ));
+
+    this.index = rows;
+    this.indexLoadedAt = Date.now();
+    console.log(`📚 Loaded ${rows.length} article section embeddings for semantic search`);
+    return rows;
+  }
+}
+
+export const semanticSearchEngine = new SemanticSearchEngine();
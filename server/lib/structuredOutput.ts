@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { ChatMessage, ChatOptions, LLMProvider } from "./llmProvider";
+import { parsePartialJson } from "./partialJson";
+
+export class LLMValidationError extends Error {
+  constructor(readonly label: string, readonly problem: string, readonly attempts: number) {
+    super(`${label} response was still invalid after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${problem}`);
+    this.name = 'LLMValidationError';
+  }
+}
+
+const maxRepairAttempts = parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2', 10);
+const partialIntervalMs = 250;
+
+export interface StructuredOptions extends Omit<ChatOptions, 'json'> {
+  // Streams the first attempt and reports the unvalidated object parsed so far
+  onPartial?: (partial: unknown) => void;
+}
+
+// Ask for JSON and validate it against a schema. When the response doesn't parse or
+// doesn't match, the model sees its own answer and the validation errors and gets
+// another try; provider errors (network, auth) are not retried here.
+export async function generateStructured<S extends z.ZodTypeAny>(
+  llm: LLMProvider,
+  messages: ChatMessage[],
+  schema: S,
+  label: string,
+  options: StructuredOptions = {}
+): Promise<z.infer<S>> {
+  const { onPartial, ...chatOptions } = options;
+  const conversation = [...messages];
+  let problem = '';
+
+  for (let attempt = 1; attempt <= maxRepairAttempts + 1; attempt++) {
+    // Repairs are short and replace the whole answer, so only the first attempt is streamed
+    const raw = onPartial && attempt === 1
+      ? await streamWithPartials(llm, conversation, { ...chatOptions, json: true }, onPartial)
+      : await llm.chat(conversation, { ...chatOptions, json: true });
+    const result = validate(raw, schema);
+    if (result.success) {
+      if (attempt > 1) console.log(`🔧 ${label} response repaired on attempt ${attempt}`);
+      return result.data;
+    }
+
+    problem = result.problem;
+    console.warn(`⚠️ ${label} response failed validation (attempt ${attempt}): ${problem}`);
+    conversation.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your previous response was invalid: ${problem}\n\nReply again with only the corrected JSON object, following the structure requested above.`
+      }
+    );
+  }
+
+  throw new LLMValidationError(label, problem, maxRepairAttempts + 1);
+}
+
+async function streamWithPartials(
+  llm: LLMProvider,
+  messages: ChatMessage[],
+  options: ChatOptions,
+  onPartial: (partial: unknown) => void
+): Promise<string> {
+  let text = '';
+  let lastReported = 0;
+
+  for await (const delta of llm.streamChat(messages, options)) {
+    text += delta;
+    if (Date.now() - lastReported >= partialIntervalMs) {
+      lastReported = Date.now();
+      const partial = parsePartialJson(text);
+      if (partial !== undefined) onPartial(partial);
+    }
+  }
+
+  return text;
+}
+
+function validate<S extends z.ZodTypeAny>(
+  raw: string,
+  schema: S
+): { success: true; data: z.infer<S> } | { success: false; problem: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return { success: false, problem: `not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) return { success: true, data: result.data };
+  return { success: false, problem: fromZodError(result.error, { prefix: null }).message };
+}
@@ -5,10 +5,41 @@ import {
   CardFactory, 
   ActivityTypes,
   ChannelInfo,
-  TeamsInfo
+  TeamsInfo,
+  TaskModuleRequest,
+  TaskModuleResponse
 } from 'botbuilder';
-import { aiAnalyst, type ITSupportResponse } from './aiAnalyst.js';
+import {
+  aiAnalyst,
+  type AnalysisPreview,
+  type AnalysisSource,
+  type FallbackReason,
+  type ITSupportResponse,
+  type TechnicalAnalysis
+} from './aiAnalyst.js';
+import { ThrottledCardUpdater } from './cardUpdater.js';
+import { stripCitationMarkers } from './citations.js';
 import { storage } from '../storage.js';
+import { parseFoundArticles, type FoundArticle, type KnowledgeBaseArticle, type SupportInteraction } from '@shared/schema.js';
+import { conversationMemory, type SessionArticle } from './conversationMemory.js';
+import { knowledgeBaseRetriever } from './knowledgeBaseRetriever.js';
+import { redactor, type RedactionCounts } from './redaction.js';
+import { inputGuard, type InputCategory, type InputClassification } from './inputGuard.js';
+import { articleClickTracker } from './articleTracking.js';
+import { healthMonitor, type HealthCheck } from './healthChecks.js';
+import {
+  parseCardAction,
+  parseOpenTicketRequest,
+  parseTicketFormSubmission,
+  type CardActionData
+} from './cardActions.js';
+import {
+  ateraClient,
+  type AteraContact,
+  type AteraTicket,
+  type AteraTicketComment,
+  type AteraTicketPriority
+} from './ateraClient.js';
 
 interface AdaptiveCard {
   type: string;
@@ -17,18 +48,61 @@ interface AdaptiveCard {
   actions?: any[];
 }
 
+type TicketCommand =
+  | { type: 'list' }
+  | { type: 'detail'; ticketId: number };
+
+// Feedback already given on a support card, used when refreshing it in place
+interface CardFeedbackState {
+  helpful: boolean;
+  commentSubmitted?: boolean;
+}
+
+class AnalysisTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI analysis did not finish within ${timeoutMs}ms`);
+    this.name = 'AnalysisTimeoutError';
+  }
+}
+
+interface RefusalMessage {
+  title: string;
+  text: string;
+}
+
+// What the bot says when the guardrails check turns a message away
+const refusalMessages: Record<Exclude<InputCategory, 'support'>, RefusalMessage> = {
+  off_topic: {
+    title: 'I can only help with IT support',
+    text: 'I\'m Anthem\'s IT support assistant, so I can\'t help with that request. I can troubleshoot problems with your computer, software, accounts, access and devices, or open a helpdesk ticket for you.',
+  },
+  abusive: {
+    title: 'Let\'s focus on your IT issue',
+    text: 'I\'m here to help with IT problems. If something isn\'t working, tell me what you\'re seeing and I\'ll do my best to sort it out.',
+  },
+  injection: {
+    title: 'I can\'t do that',
+    text: 'I can\'t change how I work or share my instructions. I can help you troubleshoot an IT problem or open a helpdesk ticket.',
+  },
+};
+
 export class ITSupportBot extends TeamsActivityHandler {
+  // Teams shows its own error if a turn takes too long, so give up on the model well before that
+  private analysisTimeoutMs = parseInt(process.env.AI_ANALYSIS_TIMEOUT_MS || '20000', 10);
+
   constructor() {
     super();
 
     // Handle messages
     this.onMessage(async (context, next) => {
+      await this.rememberConversationReference(context);
       await this.handleMessage(context);
       await next();
     });
 
     // Handle members added
     this.onMembersAdded(async (context, next) => {
+      await this.rememberConversationReference(context);
       await this.handleMembersAdded(context);
       await next();
     });
@@ -36,11 +110,48 @@ export class ITSupportBot extends TeamsActivityHandler {
 
   }
 
+  // Store where to reach this user so ticket updates can be pushed to them later. Only
+  // personal chats count, so ticket details never get posted into a group chat or channel.
+  private async rememberConversationReference(context: TurnContext): Promise<void> {
+    if (context.activity.conversation?.conversationType !== 'personal') return;
+
+    try {
+      const userId = context.activity.from.id;
+      const existing = await storage.getConversationReference(userId);
+
+      let email = existing?.email || undefined;
+      if (!email) {
+        try {
+          const member = await TeamsInfo.getMember(context, userId);
+          email = member.email || member.userPrincipalName || undefined;
+        } catch (error) {
+          console.log('Could not resolve Teams member email:', error instanceof Error ? error.message : error);
+        }
+      }
+
+      await storage.saveConversationReference({
+        userId,
+        email: email || null,
+        reference: TurnContext.getConversationReference(context.activity),
+      });
+    } catch (error) {
+      console.error('Failed to save conversation reference:', error);
+    }
+  }
+
   private async handleMessage(context: TurnContext): Promise<void> {
+    // Handle typed adaptive card actions (detailed steps, follow-up questions)
+    const cardAction = parseCardAction(context.activity.value);
+    if (cardAction) {
+      await this.handleCardAction(context, cardAction);
+      return;
+    }
+
     let userMessage = context.activity.text?.trim();
     
     // Handle adaptive card submit actions
-    if (context.activity.value && context.activity.value.text) {
+    const fromFollowUpButton = !!(context.activity.value && context.activity.value.text);
+    if (fromFollowUpButton) {
       userMessage = context.activity.value.text;
     }
     
@@ -73,143 +184,305 @@ export class ITSupportBot extends TeamsActivityHandler {
         return;
       }
 
+      // Check for ticket status commands - "tickets", "my tickets", "ticket 1234"
+      const ticketCommand = this.parseTicketCommand(command);
+      if (ticketCommand) {
+        await this.handleTicketCommand(context, ticketCommand);
+        return;
+      }
+
+      // Check for new issue command - drops the current troubleshooting thread
+      if (command === 'reset' || command === 'new issue') {
+        await conversationMemory.reset(context);
+        await context.sendActivity(MessageFactory.text('Okay, let\'s start fresh. What can I help you with?'));
+        return;
+      }
+
       // Process technical support request
       const startTime = Date.now();
-      
-      // Search knowledge base using AI-generated keywords for better matching
-      let searchResults: any[] = [];
-      try {
-        const pkg = await import('pg');
-        const { Pool } = pkg.default;
-        const client = new Pool({ connectionString: process.env.DATABASE_URL });
-        
-        // Enhanced search using precise matching for better article discovery
-        const stopWords = ['how', 'to', 'can', 'my', 'the', 'and', 'for', 'with', 'are', 'is', 'do', 'does', 'will', 'what', 'when', 'where', 'why', 'help', 'me', 'i', 'you', 'a', 'an'];
-        const searchTerms = userMessage.toLowerCase().split(' ')
-          .filter((term: string) => term.length > 2 && !stopWords.includes(term));
-        console.log(`Searching for terms: [${searchTerms.join(', ')}] from message: "${userMessage}"`);
-        console.log(`Using search query with keywords support`);
-        
-        // Always search for articles using broad matching
-        let result;
-        
-        // Strategy 1: Search for meaningful terms in content and title
-        if (searchTerms.length > 0) {
-          // For single term, use OR logic. For multiple terms, prefer articles that match more terms
-          const searchConditions = searchTerms.map((_, i) => 
-            `(LOWER(title) ILIKE $${i + 1} OR LOWER(content) ILIKE $${i + 1} OR array_to_string(search_keywords, ' ') ILIKE $${i + 1})`
-          ).join(' OR ');
-          
-          // Get all matching articles first
-          result = await client.query(`
-            SELECT article_id, title, url, content, last_updated, search_keywords
-            FROM knowledge_base_articles 
-            WHERE (${searchConditions})
-            AND is_active = true
-            ORDER BY last_updated DESC
-          `, searchTerms.map(term => `%${term}%`));
-          
-          // Sort by relevance in JavaScript for more control
-          if (result.rows.length > 0) {
-            result.rows = result.rows.map((row: any) => {
-              let score = 0;
-              const title = row.title.toLowerCase();
-              const keywords = Array.isArray(row.search_keywords) ? row.search_keywords.join(' ').toLowerCase() : '';
-              
-              // High score for title containing all search terms
-              if (searchTerms.every(term => title.includes(term))) {
-                score += 50;
-              }
-              // High score for keywords containing all search terms  
-              if (searchTerms.every(term => keywords.includes(term))) {
-                score += 40;
-              }
-              // Medium score for title containing any search term
-              searchTerms.forEach(term => {
-                if (title.includes(term)) score += 10;
-                if (keywords.includes(term)) score += 5;
-              });
-              
-              return { ...row, relevance_score: score };
-            }).sort((a: any, b: any) => b.relevance_score - a.relevance_score)
-              .filter((row: any) => row.relevance_score >= 10) // Only show articles with decent relevance
-              .slice(0, 3); // Limit to top 3 most relevant articles
-          }
-          
-          console.log(`Database search returned ${result.rows.length} articles`);
-          if (result.rows.length > 0) {
-            console.log('Top articles with relevance scores:', 
-              result.rows.slice(0, 3).map(row => ({
-                title: row.title,
-                score: row.relevance_score || 0
-              }))
-            );
-          }
-        } else {
-          // No search terms, don't show any articles
-          result = { rows: [] };
-          console.log('No search terms provided, skipping article search');
-        }
 
-        searchResults = result.rows.map((article: any) => {
-          const content = article.content || '';
-          const cleanContent = content.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
-          const excerpt = cleanContent.length > 150 
-            ? cleanContent.substring(0, 150) + '...'
-            : cleanContent || 'Click to view the full article for detailed instructions.';
-          
-          return {
-            title: article.title || 'Knowledge Base Article',
-            url: article.url || `https://helpdesk.anthemproperties.com/knowledgebase/article/${article.article_id}`,
-            excerpt: excerpt,
-            relevanceScore: 85,
-            category: 'Knowledge Base',
-            lastUpdated: article.last_updated
-          };
-        });
+      // Everything past this point - search, the model, conversation memory and
+      // analytics - only sees the message with personal data and secrets removed
+      const redaction = redactor.redact(userMessage);
+      if (redaction.total > 0) {
+        console.log(`🔒 Redacted ${redaction.total} item(s) from message:`, redaction.counts);
+        userMessage = redaction.text;
+      }
+
+      // Load the running troubleshooting thread for this conversation
+      const session = await conversationMemory.getSession(context);
+      const isFollowUp = conversationMemory.hasActiveThread(session);
 
-        await client.end();
+      // Turn away requests that aren't IT support before searching or analysing them
+      const classification = await inputGuard.classify(userMessage, isFollowUp);
+      if (classification.category !== 'support') {
+        console.log(`🛡️ Refusing ${classification.category} message (${classification.source}): ${classification.reason}`);
+        const refusal = refusalMessages[classification.category];
+        await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(this.createRefusalCard(refusal))));
+        await this.storeRefusal(userId, userMessage, refusal, classification, Date.now() - startTime, redaction.counts);
+        return;
+      }
+
+      // Search knowledge base - full-text and semantic rankings fused together
+      let searchResults: any[] = [];
+      try {
+        searchResults = await knowledgeBaseRetriever.retrieve(userMessage, 3);
         console.log(`Found ${searchResults.length} relevant articles for: "${userMessage}"`);
-        console.log('Search results:', searchResults.map(r => ({ title: r.title, url: r.url })));
+        console.log('Search results:', searchResults.map(r => ({ title: r.title, url: r.url, matchedBy: r.matchedBy })));
         
         // If no articles found, log and continue without articles
         if (searchResults.length === 0) {
           console.log('No relevant articles found for the query');
         }
-        
-
       } catch (error) {
         console.error('Knowledge base search failed:', error);
         searchResults = [];
       }
 
+      // Follow-ups like "more detailed steps" rarely match articles on their own, so keep
+      // working from the articles already shown - but only when the message is about the
+      // same issue, so a new problem raised in the thread doesn't inherit unrelated articles
+      const continuesThread = fromFollowUpButton || conversationMemory.continuesThread(session, userMessage);
+      if (searchResults.length === 0 && isFollowUp && continuesThread && session.shownArticles.length > 0) {
+        console.log(`Reusing ${session.shownArticles.length} articles from the current conversation thread`);
+        searchResults = session.shownArticles.map(article => ({
+          articleId: article.articleId,
+          title: article.title,
+          url: article.url,
+          excerpt: article.excerpt || '',
+          relevanceScore: article.relevanceScore,
+          sectionHeading: article.sectionHeading,
+          sectionContent: article.sectionContent,
+          category: 'Knowledge Base',
+        }));
+      }
+
       // Generate AI-powered IT support response with knowledge base context
       console.log(`About to generate AI response with ${searchResults.length} search results`);
-      const supportResponse = await this.generateAIResponse(userMessage, searchResults);
+      const conversationContext = conversationMemory.buildPromptContext(session);
+      const pendingCard = await this.sendPendingSupportCard(context, searchResults);
+      const supportResponse = await this.generateAIResponse(
+        userMessage,
+        searchResults,
+        conversationContext,
+        pendingCard ? preview => pendingCard.update(this.createPendingSupportCard(searchResults, preview)) : undefined
+      );
       console.log(`Support response generated with ${supportResponse.knowledgeBaseInsights.length} insights`);
 
-      // Send adaptive card response
-      await this.sendSupportResponse(context, supportResponse);
-
-      // Store interaction for analytics
-      await this.storeInteraction(
+      // Store interaction for analytics - the card's actions refer back to it by id
+      const interactionId = await this.storeInteraction(
         userId,
         userMessage,
         searchResults,
         supportResponse,
-        Date.now() - startTime
+        Date.now() - startTime,
+        redaction.counts,
+        classification
       );
 
+      // Send adaptive card response
+      await this.sendSupportResponse(context, supportResponse, interactionId, pendingCard);
+
+      // Remember this turn so follow-up questions continue the same thread
+      const shownArticles: SessionArticle[] = searchResults.map(result => ({
+        articleId: result.articleId,
+        title: result.title,
+        url: result.url,
+        excerpt: result.excerpt,
+        relevanceScore: result.relevanceScore,
+        sectionHeading: result.sectionHeading,
+        sectionContent: result.sectionContent,
+      }));
+      await conversationMemory.recordExchange(context, session, {
+        userMessage,
+        analysis: supportResponse.analysis,
+        articles: shownArticles,
+        interactionId,
+      });
+
     } catch (error) {
       console.error('Error handling message:', error);
       await this.sendErrorMessage(context, error instanceof Error ? error.message : 'Unknown error');
     }
   }
 
-  private async generateAIResponse(userMessage: string, knowledgeBaseResults: any[] = []): Promise<ITSupportResponse> {
-    // Generate simplified AI-powered technical analysis
-    const analysis = await aiAnalyst.generateTechnicalAnalysis(userMessage, []);
-    
+  private parseTicketCommand(command: string): TicketCommand | undefined {
+    const normalized = command.replace(/[?!.]+$/, '').trim();
+
+    const detailMatch = normalized.match(/^(?:my\s+)?ticket\s*#?\s*(\d+)$/);
+    if (detailMatch) {
+      return { type: 'detail', ticketId: parseInt(detailMatch[1], 10) };
+    }
+
+    if (/^(?:my\s+)?(?:open\s+)?tickets?(?:\s+status)?$/.test(normalized)) {
+      return { type: 'list' };
+    }
+
+    // Natural phrasing like "what's happening with my ticket?" or "status of ticket #1234"
+    const asksForStatus = /\b(status|happening|update|progress|news)\b/.test(normalized);
+    if (asksForStatus) {
+      const numberedTicket = normalized.match(/\bticket\s*#?\s*(\d+)\b/);
+      if (numberedTicket) {
+        return { type: 'detail', ticketId: parseInt(numberedTicket[1], 10) };
+      }
+      if (/\bmy\s+(?:help\s*desk\s+)?tickets?\b/.test(normalized)) {
+        return { type: 'list' };
+      }
+    }
+
+    return undefined;
+  }
+
+  private async handleTicketCommand(context: TurnContext, ticketCommand: TicketCommand): Promise<void> {
+    if (!ateraClient.isConfigured()) {
+      await context.sendActivity(MessageFactory.text(
+        'Ticket lookup isn\'t available right now. You can check your tickets at https://helpdesk.anthemproperties.com.'
+      ));
+      return;
+    }
+
+    const { contact, email } = await this.resolveAteraContact(context);
+    if (!contact) {
+      await context.sendActivity(MessageFactory.text(
+        `I couldn't find a helpdesk account for ${email || 'your Teams account'}. If you've never opened a ticket before, you won't have any to show yet.`
+      ));
+      return;
+    }
+
+    if (ticketCommand.type === 'list') {
+      const tickets = (await ateraClient.listOpenTicketsForContact(contact)).slice(0, 10);
+
+      // Only the most recent tickets get their latest comment, to keep the lookup quick
+      const lastComments = new Map<number, AteraTicketComment | undefined>();
+      await Promise.all(tickets.slice(0, 5).map(async ticket => {
+        try {
+          const comments = await ateraClient.getTicketComments(ticket.TicketID);
+          lastComments.set(ticket.TicketID, comments[0]);
+        } catch (error) {
+          console.error(`Failed to load comments for ticket ${ticket.TicketID}:`, error);
+        }
+      }));
+
+      const card = this.createTicketListCard(tickets, lastComments);
+      await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(card)));
+      return;
+    }
+
+    const ticket = await ateraClient.getTicket(ticketCommand.ticketId);
+    // Never show other people's tickets
+    if (!ticket || !ateraClient.isTicketOwnedBy(ticket, contact)) {
+      await context.sendActivity(MessageFactory.text(
+        `I couldn't find ticket #${ticketCommand.ticketId} under your account. Type **tickets** to see your open tickets.`
+      ));
+      return;
+    }
+
+    const comments = await ateraClient.getTicketComments(ticket.TicketID);
+    const card = this.createTicketDetailCard(ticket, comments);
+    await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(card)));
+  }
+
+  private async reopenTicket(context: TurnContext, ticketId: number): Promise<void> {
+    const { contact } = await this.resolveAteraContact(context);
+    const ticket = await ateraClient.getTicket(ticketId);
+
+    if (!contact || !ticket || !ateraClient.isTicketOwnedBy(ticket, contact)) {
+      await context.sendActivity(MessageFactory.text(`I couldn't find ticket #${ticketId} under your account.`));
+      return;
+    }
+
+    await ateraClient.updateTicketStatus(ticketId, 'Open');
+
+    // Record the new status ourselves so the watcher doesn't echo it back as an update
+    await storage.saveTicketSnapshot({
+      ticketId,
+      endUserEmail: ticket.EndUserEmail || contact.Email,
+      status: 'Open',
+      technician: ticket.TechnicianFullName || null,
+      lastTechnicianCommentAt: ticket.LastTechnicianCommentTimestamp || null,
+    });
+
+    await context.sendActivity(MessageFactory.text(
+      `I've reopened ticket #${ticketId}. ${ticket.TechnicianFullName || 'The helpdesk'} will take another look. You can add details by replying to the helpdesk email.`
+    ));
+  }
+
+  async sendTicketUpdate(
+    context: TurnContext,
+    ticket: AteraTicket,
+    change: 'status' | 'reply',
+    latestComment?: AteraTicketComment
+  ): Promise<void> {
+    const card = this.createTicketUpdateCard(ticket, change, latestComment);
+    await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(card)));
+  }
+
+  private async resolveAteraContact(context: TurnContext): Promise<{ contact?: AteraContact; email?: string }> {
+    try {
+      const member = await TeamsInfo.getMember(context, context.activity.from.id);
+      const email = member.email || member.userPrincipalName;
+      if (!email) return {};
+
+      const contact = await ateraClient.findContactByEmail(email);
+      return { contact, email };
+    } catch (error) {
+      console.error('Failed to resolve Atera contact for Teams user:', error);
+      return {};
+    }
+  }
+
+  // Also run by the eval harness (npm run eval), so it scores exactly what users get
+  async generateAIResponse(
+    userMessage: string,
+    knowledgeBaseResults: any[] = [],
+    conversationContext?: string,
+    onProgress?: (preview: AnalysisPreview) => void
+  ): Promise<ITSupportResponse> {
+    // Give the analyst the matched section of each article rather than its intro
+    const articleSections = knowledgeBaseResults
+      .filter(result => result.sectionContent)
+      .map(result => ({
+        title: result.title,
+        sectionHeading: result.sectionHeading,
+        content: result.sectionContent,
+        url: result.url,
+      }));
+
+    let analysis: TechnicalAnalysis;
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new AnalysisTimeoutError(this.analysisTimeoutMs)), this.analysisTimeoutMs);
+      });
+      analysis = await Promise.race([
+        aiAnalyst.generateTechnicalAnalysis(userMessage, articleSections, conversationContext, onProgress),
+        timeout,
+      ]);
+    } catch (error) {
+      // Still answer with what search found rather than an error message
+      const reason: FallbackReason = error instanceof AnalysisTimeoutError ? 'timeout' : 'error';
+      console.error(`AI analysis unavailable (${reason}), answering from knowledge base only:`, error);
+      analysis = this.createFallbackAnalysis(knowledgeBaseResults.length > 0, reason);
+    } finally {
+      clearTimeout(timer);
+    }
+    return this.buildSupportResponse(analysis, knowledgeBaseResults);
+  }
+
+  private createFallbackAnalysis(hasArticles: boolean, reason: FallbackReason): TechnicalAnalysis {
+    return {
+      issueDiagnosis: hasArticles
+        ? 'The knowledge base articles above are the closest match to your question. If they don\'t solve it, create a ticket and the IT team will follow up.'
+        : 'I couldn\'t find a knowledge base article for this. Please try again in a few minutes, or create a ticket and the IT team will follow up.',
+      immediateActions: [],
+      expertRecommendations: [],
+      severity: 'medium',
+      estimatedResolutionTime: 'Unknown',
+      fallbackReason: reason,
+    };
+  }
+
+  private buildSupportResponse(analysis: TechnicalAnalysis, knowledgeBaseResults: any[]): ITSupportResponse {
     // Convert knowledge base results to insights format with clean text
     const knowledgeBaseInsights = knowledgeBaseResults.map(result => {
       // Clean HTML from excerpt to get readable text
@@ -217,15 +490,11 @@ export class ITSupportBot extends TeamsActivityHandler {
         ? result.excerpt.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim()
         : 'Relevant information found';
       
-      // Limit excerpt length for better display
-      const shortExcerpt = cleanExcerpt.length > 100 
-        ? cleanExcerpt.substring(0, 100) + '...'
-        : cleanExcerpt;
-
       return {
         articleTitle: result.title || 'Knowledge Base Article',
         articleUrl: result.url || '#',
-        keyFinding: shortExcerpt,
+        sectionHeading: result.sectionHeading || null,
+        keyFinding: cleanExcerpt,
         solution: `See full article: ${result.title || 'Knowledge Base Article'}`,
         relevanceScore: result.relevanceScore || 50,
         lastUpdated: result.lastUpdated || new Date()
@@ -249,11 +518,51 @@ export class ITSupportBot extends TeamsActivityHandler {
       responseMetadata: {
         processingTime: 0,
         articlesAnalyzed: knowledgeBaseResults.length,
-        confidenceScore: knowledgeBaseResults.length > 0 ? 85 : 75
+        confidenceScore: analysis.fallbackReason ? 0 : knowledgeBaseResults.length > 0 ? 85 : 75
       }
     };
   }
 
+  // Recreate the response a stored interaction was rendered from, so its card can be refreshed
+  private rebuildSupportResponse(interaction: SupportInteraction): ITSupportResponse {
+    const analysis: TechnicalAnalysis = JSON.parse(interaction.aiResponse);
+    return this.buildSupportResponse(analysis, parseFoundArticles(interaction.foundArticles));
+  }
+
+  // Card previews for the admin dashboard, built the same way as the cards the bot sends.
+  // A query goes through redaction, the guardrails check and search just like a new message
+  // (without conversation history); an interaction shows its card as it looks now, feedback included.
+  async previewQueryCard(query: string): Promise<AdaptiveCard> {
+    const { text } = redactor.redact(query);
+
+    const classification = await inputGuard.classify(text);
+    if (classification.category !== 'support') {
+      return this.previewRefusalCard(classification.category);
+    }
+
+    const searchResults = await knowledgeBaseRetriever.retrieve(text, 3).catch(error => {
+      console.error('Knowledge base search failed:', error);
+      return [];
+    });
+    return this.createSupportResponseCard(await this.generateAIResponse(text, searchResults));
+  }
+
+  previewRefusalCard(category: Exclude<InputCategory, 'support'>): AdaptiveCard {
+    return this.createRefusalCard(refusalMessages[category]);
+  }
+
+  previewInteractionCard(interaction: SupportInteraction): AdaptiveCard {
+    if (interaction.responseMode === 'refused') {
+      const category = interaction.inputClassification as keyof typeof refusalMessages;
+      return this.createRefusalCard(refusalMessages[category] || { title: 'Request declined', text: interaction.aiResponse });
+    }
+
+    const feedback = interaction.wasHelpful === null
+      ? undefined
+      : { helpful: interaction.wasHelpful, commentSubmitted: Boolean(interaction.feedbackComment) };
+    return this.createSupportResponseCard(this.rebuildSupportResponse(interaction), interaction.id, feedback);
+  }
+
   private async sendTypingIndicator(context: TurnContext): Promise<void> {
     const typingActivity = MessageFactory.text('');
     typingActivity.type = ActivityTypes.Typing;
@@ -266,7 +575,7 @@ export class ITSupportBot extends TeamsActivityHandler {
     await context.sendActivity(cardActivity);
   }
 
-  private createWelcomeCard(): AdaptiveCard {
+  createWelcomeCard(): AdaptiveCard {
     return {
       type: 'AdaptiveCard',
       version: '1.4',
@@ -325,26 +634,335 @@ export class ITSupportBot extends TeamsActivityHandler {
         },
         {
           type: 'ActionSet',
-          actions: [
+          actions: [this.createTicketAction()]
+        }
+      ]
+    };
+  }
+
+  private async sendSupportResponse(
+    context: TurnContext,
+    response: ITSupportResponse,
+    interactionId?: number,
+    pendingCard?: ThrottledCardUpdater
+  ): Promise<void> {
+    const adaptiveCard = this.createSupportResponseCard(response, interactionId);
+
+    // Replace the streaming card with the finished answer where the channel allows edits
+    if (pendingCard && await pendingCard.finish(adaptiveCard)) return;
+
+    const cardActivity = MessageFactory.attachment(CardFactory.adaptiveCard(adaptiveCard));
+    await context.sendActivity(cardActivity);
+  }
+
+  // Sent as soon as search finishes so the user sees the matching articles while the
+  // analysis is generated; returns the updater that fills the card in as it streams
+  private async sendPendingSupportCard(
+    context: TurnContext,
+    searchResults: any[]
+  ): Promise<ThrottledCardUpdater | undefined> {
+    try {
+      const card = this.createPendingSupportCard(searchResults);
+      const sent = await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(card)));
+      return sent?.id ? new ThrottledCardUpdater(context, sent.id) : undefined;
+    } catch (error) {
+      console.error('Failed to send pending support card:', error);
+      return undefined;
+    }
+  }
+
+  private createPendingSupportCard(searchResults: any[], preview?: AnalysisPreview): AdaptiveCard {
+    const analysis: TechnicalAnalysis = {
+      issueDiagnosis: preview?.issueDiagnosis || '',
+      immediateActions: (preview?.immediateActions || []).map(action => ({
+        ...action,
+        expectedOutcome: '',
+        verificationMethod: '',
+        difficulty: 'easy' as const,
+      })),
+      expertRecommendations: [],
+      severity: 'medium',
+      estimatedResolutionTime: '',
+    };
+    return this.createSupportResponseCard(this.buildSupportResponse(analysis, searchResults), undefined, undefined, true);
+  }
+
+  // Card payloads can be replayed by anyone in Teams, so an interaction id from one is only
+  // honoured for the user who asked the original question
+  private async getOwnInteraction(context: TurnContext, interactionId: number | undefined): Promise<SupportInteraction | undefined> {
+    if (interactionId === undefined) return undefined;
+    const interaction = await storage.getSupportInteraction(interactionId);
+    if (interaction && interaction.userId !== context.activity.from.id) {
+      console.warn(`🛡️ Ignoring interaction ${interactionId}, which belongs to a different user`);
+      return undefined;
+    }
+    return interaction;
+  }
+
+  private async handleCardAction(context: TurnContext, action: CardActionData): Promise<void> {
+    try {
+      await this.sendTypingIndicator(context);
+
+      if (action.action === 'reopenTicket') {
+        await this.reopenTicket(context, action.ticketId);
+        return;
+      }
+
+      const interaction = await this.getOwnInteraction(context, action.interactionId);
+      if (!interaction) {
+        await context.sendActivity(MessageFactory.text(
+          'I couldn\'t find that conversation anymore. Please describe your issue again and I\'ll take another look.'
+        ));
+        return;
+      }
+
+      const analysis: TechnicalAnalysis = JSON.parse(interaction.aiResponse);
+      const foundArticles = parseFoundArticles(interaction.foundArticles);
+
+      switch (action.action) {
+        case 'detailedSteps': {
+          const selectedStep = action.stepIndex !== undefined
+            ? analysis.immediateActions?.[action.stepIndex]
+            : undefined;
+          const selectedSolution = selectedStep
+            ? `${selectedStep.step}: ${selectedStep.description}`
+            : (analysis.immediateActions || [])
+                .map((step, index) => `${index + 1}. ${step.step}: ${step.description}`)
+                .join('\n') || analysis.issueDiagnosis;
+
+          const articleContent = await this.loadArticleContent(foundArticles);
+          const detailedSteps = await aiAnalyst.generateDetailedSteps(
+            interaction.userQuery,
+            selectedSolution,
+            articleContent
+          );
+
+          const card = this.createDetailedStepsCard(
+            selectedStep?.step || 'Step-by-step instructions',
+            detailedSteps,
+            foundArticles,
+            interaction.id
+          );
+          await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(card)));
+          break;
+        }
+        case 'followUpQuestions': {
+          const questions = await aiAnalyst.generateFollowUpQuestions(interaction.userQuery, analysis);
+          const card = this.createFollowUpQuestionsCard(questions);
+          await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(card)));
+          break;
+        }
+        case 'feedback': {
+          await storage.updateInteractionFeedback(interaction.id, action.helpful);
+          console.log(`Interaction ${interaction.id} marked as ${action.helpful ? 'helpful' : 'not helpful'}`);
+          await this.refreshSupportCard(context, interaction, { helpful: action.helpful });
+          break;
+        }
+        case 'feedbackComment': {
+          if (!action.comment) {
+            await context.sendActivity(MessageFactory.text('Please type a few words about what was missing before sending.'));
+            break;
+          }
+          await storage.updateInteractionFeedbackComment(interaction.id, redactor.redact(action.comment).text);
+          await this.refreshSupportCard(context, interaction, {
+            helpful: interaction.wasHelpful ?? false,
+            commentSubmitted: true
+          });
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`Error handling card action ${action.action}:`, error);
+      await this.sendErrorMessage(context, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async refreshSupportCard(
+    context: TurnContext,
+    interaction: SupportInteraction,
+    feedback: CardFeedbackState
+  ): Promise<void> {
+    const card = this.createSupportResponseCard(this.rebuildSupportResponse(interaction), interaction.id, feedback);
+    const attachment = CardFactory.adaptiveCard(card);
+
+    // replyToId points at the card the button was pressed on
+    if (context.activity.replyToId) {
+      try {
+        await context.updateActivity({
+          id: context.activity.replyToId,
+          type: ActivityTypes.Message,
+          attachments: [attachment]
+        });
+        return;
+      } catch (error) {
+        console.error('Failed to update support card in place:', error);
+      }
+    }
+
+    await context.sendActivity(MessageFactory.text(
+      feedback.helpful ? 'Thanks for the feedback!' : 'Thanks for letting us know - we\'ll use this to improve our answers.'
+    ));
+  }
+
+  private async loadArticleContent(foundArticles: FoundArticle[]): Promise<string> {
+    const articleIds = foundArticles
+      .map(article => article.articleId)
+      .filter((id): id is string => !!id);
+
+    if (articleIds.length === 0) {
+      // Older interactions only have excerpts
+      return foundArticles.map(article => `${article.title}: ${article.excerpt || ''}`).join('\n\n');
+    }
+
+    try {
+      const articles = await Promise.all(articleIds.map(articleId => storage.getKnowledgeBaseArticle(articleId)));
+
+      return articles
+        .filter((article): article is KnowledgeBaseArticle => !!article)
+        .map(article => {
+          const cleanContent = (article.content || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+          return `${article.title}: ${cleanContent}`;
+        })
+        .join('\n\n');
+    } catch (error) {
+      console.error('Failed to load article content for detailed steps:', error);
+      return foundArticles.map(article => `${article.title}: ${article.excerpt || ''}`).join('\n\n');
+    }
+  }
+
+  private createDetailedStepsCard(
+    title: string,
+    detailedSteps: string,
+    foundArticles: FoundArticle[],
+    interactionId: number
+  ): AdaptiveCard {
+    // Teams renders a subset of markdown inside TextBlocks, so keep each paragraph as its own block
+    const paragraphs = detailedSteps
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph.trim())
+      .filter(paragraph => paragraph.length > 0);
+
+    const articleActions = foundArticles
+      .flatMap((article, index) => article.url ? [{ title: article.title, url: article.url, position: index + 1 }] : [])
+      .slice(0, 3)
+      .map(({ title, url, position }) => ({
+        type: 'Action.OpenUrl',
+        title: title || 'Open Article',
+        url: articleClickTracker.trackedUrl(url, interactionId, position)
+      }));
+
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [
+        {
+          type: 'Container',
+          style: 'emphasis',
+          items: [
+            {
+              type: 'TextBlock',
+              text: 'Detailed Steps',
+              weight: 'Bolder',
+              size: 'Large'
+            },
             {
-              type: 'Action.OpenUrl',
-              title: 'Submit A Helpdesk Ticket',
-              url: 'https://helpdesk.anthemproperties.com/tickets/add',
-              style: 'default'
+              type: 'TextBlock',
+              text: title,
+              wrap: true,
+              size: 'Medium',
+              isSubtle: true
             }
           ]
+        },
+        ...paragraphs.map(paragraph => ({
+          type: 'TextBlock',
+          text: paragraph,
+          wrap: true,
+          spacing: 'Medium'
+        }))
+      ],
+      actions: articleActions
+    };
+  }
+
+  private createRefusalCard(message: RefusalMessage): AdaptiveCard {
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [
+        {
+          type: 'TextBlock',
+          text: message.title,
+          weight: 'Bolder',
+          size: 'Large',
+          wrap: true
+        },
+        {
+          type: 'TextBlock',
+          text: message.text,
+          wrap: true,
+          spacing: 'Medium'
+        },
+        {
+          type: 'TextBlock',
+          text: 'Describe an IT problem and I\'ll look into it - for example "Outlook keeps crashing" or "I can\'t connect to the VPN".',
+          wrap: true,
+          spacing: 'Medium',
+          isSubtle: true
         }
       ]
     };
   }
 
-  private async sendSupportResponse(context: TurnContext, response: ITSupportResponse): Promise<void> {
-    const adaptiveCard = this.createSupportResponseCard(response);
-    const cardActivity = MessageFactory.attachment(CardFactory.adaptiveCard(adaptiveCard));
-    await context.sendActivity(cardActivity);
+  private createFollowUpQuestionsCard(questions: string[]): AdaptiveCard {
+    const body: any[] = [
+      {
+        type: 'TextBlock',
+        text: 'A few questions to narrow it down',
+        weight: 'Bolder',
+        size: 'Large'
+      }
+    ];
+
+    if (questions.length > 0) {
+      body.push(
+        ...questions.map((question, index) => ({
+          type: 'TextBlock',
+          text: `${index + 1}. ${question}`,
+          wrap: true,
+          spacing: 'Small'
+        })),
+        {
+          type: 'TextBlock',
+          text: 'Reply with whatever details you can and I\'ll continue from there.',
+          wrap: true,
+          spacing: 'Medium',
+          isSubtle: true
+        }
+      );
+    } else {
+      body.push({
+        type: 'TextBlock',
+        text: 'Tell me more about what you see - any error messages, when it started, and what you\'ve already tried.',
+        wrap: true
+      });
+    }
+
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body
+    };
   }
 
-  private createSupportResponseCard(response: ITSupportResponse): AdaptiveCard {
+  // pending: the analysis is still streaming in, so only show what has arrived.
+  // Public so the dashboard can preview exactly what users are sent.
+  createSupportResponseCard(
+    response: ITSupportResponse,
+    interactionId?: number,
+    feedback?: CardFeedbackState,
+    pending = false
+  ): AdaptiveCard {
     const { analysis, knowledgeBaseInsights } = response;
 
     const severityColor = {
@@ -366,11 +984,24 @@ export class ITSupportBot extends TeamsActivityHandler {
             weight: 'Bolder',
             size: 'Large'
           },
-          {
+          pending ? {
             type: 'TextBlock',
-            text: `${analysis.severity.toUpperCase()} Priority • Est. ${analysis.estimatedResolutionTime}`,
+            text: 'Analyzing your issue…',
             size: 'Medium',
-            color: severityColor,
+            color: 'Accent',
+            weight: 'Bolder'
+          } : analysis.fallbackReason ? {
+            type: 'TextBlock',
+            text: 'Knowledge base results',
+            size: 'Medium',
+            color: 'Warning',
+            weight: 'Bolder',
+            wrap: true
+          } : {
+            type: 'TextBlock',
+            text: `${analysis.severity.toUpperCase()} Priority • Est. ${analysis.estimatedResolutionTime}`,
+            size: 'Medium',
+            color: severityColor,
             weight: 'Bolder'
           }
         ]
@@ -406,9 +1037,18 @@ export class ITSupportBot extends TeamsActivityHandler {
                 size: 'Medium',
                 color: 'Default'
               },
+              ...(insight.sectionHeading && insight.sectionHeading !== insight.articleTitle ? [{
+                type: 'TextBlock',
+                text: `Section: ${insight.sectionHeading}`,
+                wrap: true,
+                spacing: 'None',
+                size: 'Small',
+                weight: 'Bolder',
+                color: 'Accent'
+              }] : []),
               {
                 type: 'TextBlock',
-                text: this.createBetterExcerpt(insight.keyFinding || insight.solution || ''),
+                text: this.createBetterExcerpt(insight.keyFinding || insight.solution || '', 200),
                 wrap: true,
                 spacing: 'Small',
                 size: 'Small',
@@ -422,8 +1062,8 @@ export class ITSupportBot extends TeamsActivityHandler {
                 actions: [
                   {
                     type: 'Action.OpenUrl',
-                    title: 'Open Full Article',
-                    url: insight.articleUrl,
+                    title: insight.sectionHeading && insight.articleUrl.includes('#') ? 'Open This Section' : 'Open Full Article',
+                    url: articleClickTracker.trackedUrl(insight.articleUrl, interactionId, index + 1),
                     style: 'default'
                   }
                 ]
@@ -442,14 +1082,17 @@ export class ITSupportBot extends TeamsActivityHandler {
       items: [
         {
           type: 'TextBlock',
-          text: 'What\'s happening:',
+          text: analysis.fallbackReason ? 'AI guidance is temporarily unavailable' : 'What\'s happening:',
           weight: 'Bolder',
           size: 'Large',
-          color: 'Default'
+          color: analysis.fallbackReason ? 'Warning' : 'Default'
         },
         {
           type: 'TextBlock',
-          text: this.simplifyTechnicalText(analysis.issueDiagnosis),
+          text: pending && !analysis.issueDiagnosis
+            ? 'Searching the knowledge base and working out the most likely cause…'
+            : analysis.fallbackReason ? analysis.issueDiagnosis : this.simplifyTechnicalText(analysis.issueDiagnosis),
+          isSubtle: pending && !analysis.issueDiagnosis,
           wrap: true,
           spacing: 'Small',
           size: 'Medium'
@@ -473,6 +1116,14 @@ export class ITSupportBot extends TeamsActivityHandler {
           },
           ...analysis.immediateActions.slice(0, 3).map((action, index) => ({
             type: 'Container',
+            // Tapping a step asks for detailed instructions for just that step
+            ...(interactionId !== undefined ? {
+              selectAction: {
+                type: 'Action.Submit',
+                title: `More detail on ${action.step}`,
+                data: { action: 'detailedSteps', interactionId, stepIndex: index }
+              }
+            } : {}),
             items: [
               {
                 type: 'TextBlock',
@@ -487,13 +1138,24 @@ export class ITSupportBot extends TeamsActivityHandler {
                 wrap: true,
                 spacing: 'None',
                 size: 'Medium'
-              }
+              },
+              ...this.createStepSourceLinks(action.citations, analysis.sources, interactionId)
             ]
           }))
         ]
       });
     }
 
+    // Ask whether the answer helped, or acknowledge the vote once given
+    if (interactionId !== undefined) {
+      cardBody.push(this.createFeedbackSection(interactionId, feedback));
+    }
+
+    // Buttons only make sense once the full answer (and its stored interaction) exists
+    if (pending) {
+      return { type: 'AdaptiveCard', version: '1.4', body: cardBody };
+    }
+
     // Add prominent helpdesk ticket button at the bottom
     cardBody.push({
       type: 'Container',
@@ -503,14 +1165,7 @@ export class ITSupportBot extends TeamsActivityHandler {
         {
           type: 'ActionSet',
           horizontalAlignment: 'Center',
-          actions: [
-            {
-              type: 'Action.OpenUrl',
-              title: 'Submit A Helpdesk Ticket',
-              url: 'https://helpdesk.anthemproperties.com/tickets/add',
-              style: 'default'
-            }
-          ]
+          actions: [this.createTicketAction(interactionId)]
         }
       ]
     });
@@ -519,7 +1174,22 @@ export class ITSupportBot extends TeamsActivityHandler {
       type: 'AdaptiveCard',
       version: '1.4',
       body: cardBody,
-      actions: [
+      // Follow-up actions need a working model, so a fallback card only offers the ticket button
+      actions: analysis.fallbackReason ? [] : interactionId !== undefined ? [
+        {
+          type: 'Action.Submit',
+          title: 'Get More Details',
+          data: { action: 'detailedSteps', interactionId },
+          style: 'default'
+        },
+        {
+          type: 'Action.Submit',
+          title: 'Help Me Narrow It Down',
+          data: { action: 'followUpQuestions', interactionId },
+          style: 'default'
+        }
+      ] : [
+        // Interaction wasn't stored, fall back to conversational follow-ups
         {
           type: 'Action.Submit',
           title: 'Get More Details',
@@ -536,6 +1206,569 @@ export class ITSupportBot extends TeamsActivityHandler {
     };
   }
 
+  // Link each step to the knowledge base sections it was grounded in
+  private createStepSourceLinks(
+    citations: number[] | undefined,
+    sources: AnalysisSource[] | undefined,
+    interactionId?: number
+  ): any[] {
+    const cited = (citations || [])
+      .map(number => sources?.find(source => source.number === number))
+      .filter((source): source is AnalysisSource => !!source);
+    if (cited.length === 0) return [];
+
+    const links = cited.map(source => {
+      const label = source.sectionHeading && source.sectionHeading !== source.title
+        ? `${source.title} › ${source.sectionHeading}`
+        : source.title;
+      const url = articleClickTracker.trackedUrl(source.url, interactionId, source.number);
+      return `[${source.number}] [${label.replace(/[\[\]]/g, '')}](${url})`;
+    });
+
+    return [{
+      type: 'TextBlock',
+      text: `Source: ${links.join(' · ')}`,
+      wrap: true,
+      spacing: 'Small',
+      size: 'Small',
+      isSubtle: true
+    }];
+  }
+
+  private createTicketAction(interactionId?: number): any {
+    // Without Atera access we can only send people to the helpdesk portal
+    if (!ateraClient.isConfigured()) {
+      return {
+        type: 'Action.OpenUrl',
+        title: 'Submit A Helpdesk Ticket',
+        url: 'https://helpdesk.anthemproperties.com/tickets/add',
+        style: 'default'
+      };
+    }
+
+    return {
+      type: 'Action.Submit',
+      title: 'Open a Ticket',
+      data: {
+        msteams: { type: 'task/fetch' },
+        action: 'openTicket',
+        ...(interactionId !== undefined ? { interactionId } : {})
+      },
+      style: 'default'
+    };
+  }
+
+  protected async handleTeamsTaskModuleFetch(
+    context: TurnContext,
+    taskModuleRequest: TaskModuleRequest
+  ): Promise<TaskModuleResponse> {
+    const request = parseOpenTicketRequest(taskModuleRequest.data);
+    if (!request) {
+      return { task: { type: 'message', value: 'Sorry, I don\'t know how to open that.' } };
+    }
+
+    // Only prefill from, and later link the ticket to, the caller's own interaction
+    const interaction = await this.getOwnInteraction(context, request.interactionId);
+    const session = await conversationMemory.getSession(context);
+
+    let title = '';
+    let description = '';
+    let priority: AteraTicketPriority = 'Medium';
+
+    if (interaction) {
+      const analysis: TechnicalAnalysis = JSON.parse(interaction.aiResponse);
+      title = interaction.userQuery.length > 100
+        ? interaction.userQuery.substring(0, 97) + '...'
+        : interaction.userQuery;
+      priority = this.severityToPriority(analysis.severity);
+
+      const stepsTried = (analysis.immediateActions || [])
+        .map((action, index) => `${index + 1}. ${stripCitationMarkers(action.step)}`)
+        .join('\n');
+      const earlierMessages = session.transcript
+        .filter(turn => turn.role === 'user' && turn.text !== interaction.userQuery)
+        .map(turn => `- ${turn.text}`)
+        .join('\n');
+
+      description = [
+        `Issue:\n${interaction.userQuery}`,
+        `AI diagnosis:\n${stripCitationMarkers(analysis.issueDiagnosis)}`,
+        stepsTried ? `Steps already suggested by the assistant:\n${stepsTried}` : '',
+        earlierMessages ? `Earlier messages in this conversation:\n${earlierMessages}` : '',
+      ].filter(Boolean).join('\n\n');
+    }
+
+    return {
+      task: {
+        type: 'continue',
+        value: {
+          title: 'Open a Helpdesk Ticket',
+          height: 'large',
+          width: 'medium',
+          card: CardFactory.adaptiveCard(this.createTicketFormCard(title, description, priority, interaction?.id))
+        }
+      }
+    };
+  }
+
+  protected async handleTeamsTaskModuleSubmit(
+    context: TurnContext,
+    taskModuleRequest: TaskModuleRequest
+  ): Promise<TaskModuleResponse> {
+    const submission = parseTicketFormSubmission(taskModuleRequest.data);
+    if (!submission) {
+      return { task: { type: 'message', value: 'Please fill in a title and description for the ticket.' } };
+    }
+
+    try {
+      const member = await TeamsInfo.getMember(context, context.activity.from.id);
+      const email = member.email || member.userPrincipalName;
+      if (!email) {
+        throw new Error('Could not determine your email address from Teams');
+      }
+
+      const { ticketId } = await ateraClient.createTicket({
+        title: submission.title,
+        description: `${submission.description}\n\nSubmitted from the Teams helpdesk assistant by ${member.name || email}.`,
+        priority: submission.priority,
+        endUserEmail: email,
+        endUserFirstName: member.givenName,
+        endUserLastName: member.surname
+      });
+
+      const interaction = await this.getOwnInteraction(context, submission.interactionId);
+      if (interaction) {
+        await storage.updateInteractionTicket(interaction.id, ticketId);
+      }
+
+      const confirmation = this.createTicketConfirmationCard(ticketId, submission.title);
+      await context.sendActivity(MessageFactory.attachment(CardFactory.adaptiveCard(confirmation)));
+
+      return { task: { type: 'message', value: `Ticket #${ticketId} created` } };
+    } catch (error) {
+      console.error('Failed to create Atera ticket:', error);
+      return {
+        task: {
+          type: 'message',
+          value: `Sorry, the ticket could not be created: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }
+      };
+    }
+  }
+
+  private severityToPriority(severity: TechnicalAnalysis['severity']): AteraTicketPriority {
+    const priorities: Record<string, AteraTicketPriority> = {
+      low: 'Low',
+      medium: 'Medium',
+      high: 'High',
+      critical: 'Critical'
+    };
+    return priorities[severity] || 'Medium';
+  }
+
+  private createTicketFormCard(
+    title: string,
+    description: string,
+    priority: AteraTicketPriority,
+    interactionId?: number
+  ): AdaptiveCard {
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [
+        {
+          type: 'TextBlock',
+          text: 'We\'ve filled this in from our conversation. Edit anything before sending it to the helpdesk.',
+          wrap: true,
+          isSubtle: true
+        },
+        {
+          type: 'Input.Text',
+          id: 'title',
+          label: 'Title',
+          value: title,
+          isRequired: true,
+          maxLength: 100,
+          errorMessage: 'A short title is required'
+        },
+        {
+          type: 'Input.Text',
+          id: 'description',
+          label: 'Description',
+          value: description,
+          isMultiline: true,
+          isRequired: true,
+          errorMessage: 'Please describe the problem'
+        },
+        {
+          type: 'Input.ChoiceSet',
+          id: 'priority',
+          label: 'Priority',
+          value: priority,
+          choices: [
+            { title: 'Low', value: 'Low' },
+            { title: 'Medium', value: 'Medium' },
+            { title: 'High', value: 'High' },
+            { title: 'Critical', value: 'Critical' }
+          ]
+        }
+      ],
+      actions: [
+        {
+          type: 'Action.Submit',
+          title: 'Create Ticket',
+          style: 'positive',
+          data: {
+            action: 'createTicket',
+            ...(interactionId !== undefined ? { interactionId } : {})
+          }
+        }
+      ]
+    };
+  }
+
+  private createTicketConfirmationCard(ticketId: number, title: string): AdaptiveCard {
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [
+        {
+          type: 'TextBlock',
+          text: `🎫 Ticket #${ticketId} created`,
+          weight: 'Bolder',
+          size: 'Large',
+          color: 'Good'
+        },
+        {
+          type: 'TextBlock',
+          text: title,
+          wrap: true
+        },
+        {
+          type: 'TextBlock',
+          text: 'The helpdesk team has everything from our conversation. You\'ll hear back from a technician soon.',
+          wrap: true,
+          isSubtle: true
+        }
+      ]
+    };
+  }
+
+  private ticketStatusColor(status: string): string {
+    const colors: Record<string, string> = {
+      Open: 'Accent',
+      Pending: 'Warning',
+      Resolved: 'Good',
+      Closed: 'Good'
+    };
+    return colors[status] || 'Default';
+  }
+
+  private describeComment(comment: AteraTicketComment): string {
+    const author = comment.TechnicianFullName || [comment.FirstName, comment.LastName].filter(Boolean).join(' ') || 'Helpdesk';
+    const text = this.createBetterExcerpt(comment.Comment);
+    return `${author} (${new Date(comment.Date).toLocaleDateString()}): ${text}`;
+  }
+
+  private createTicketListCard(
+    tickets: AteraTicket[],
+    lastComments: Map<number, AteraTicketComment | undefined>
+  ): AdaptiveCard {
+    const body: any[] = [
+      {
+        type: 'TextBlock',
+        text: 'Your Open Tickets',
+        weight: 'Bolder',
+        size: 'Large'
+      }
+    ];
+
+    if (tickets.length === 0) {
+      body.push({
+        type: 'TextBlock',
+        text: 'You don\'t have any open helpdesk tickets. 🎉',
+        wrap: true
+      });
+    }
+
+    tickets.forEach((ticket, index) => {
+      const lastComment = lastComments.get(ticket.TicketID);
+      body.push({
+        type: 'Container',
+        spacing: 'Medium',
+        separator: index > 0,
+        selectAction: {
+          type: 'Action.Submit',
+          title: `View ticket #${ticket.TicketID}`,
+          data: { text: `ticket ${ticket.TicketID}` }
+        },
+        items: [
+          {
+            type: 'TextBlock',
+            text: `#${ticket.TicketID} ${ticket.TicketTitle}`,
+            weight: 'Bolder',
+            wrap: true
+          },
+          {
+            type: 'ColumnSet',
+            spacing: 'Small',
+            columns: [
+              {
+                type: 'Column',
+                width: 'auto',
+                items: [{ type: 'TextBlock', text: ticket.TicketStatus, color: this.ticketStatusColor(ticket.TicketStatus), weight: 'Bolder', size: 'Small' }]
+              },
+              {
+                type: 'Column',
+                width: 'stretch',
+                items: [{ type: 'TextBlock', text: ticket.TechnicianFullName ? `Technician: ${ticket.TechnicianFullName}` : 'Not yet assigned', isSubtle: true, size: 'Small' }]
+              }
+            ]
+          },
+          ...(lastComment ? [{
+            type: 'TextBlock',
+            text: this.describeComment(lastComment),
+            wrap: true,
+            size: 'Small',
+            isSubtle: true,
+            spacing: 'Small'
+          }] : [])
+        ]
+      });
+    });
+
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body
+    };
+  }
+
+  private createTicketDetailCard(ticket: AteraTicket, comments: AteraTicketComment[]): AdaptiveCard {
+    const facts = [
+      { title: 'Status', value: ticket.TicketStatus },
+      { title: 'Priority', value: ticket.TicketPriority || 'Not set' },
+      { title: 'Technician', value: ticket.TechnicianFullName || 'Not yet assigned' },
+      ...(ticket.TicketCreatedDate ? [{ title: 'Opened', value: new Date(ticket.TicketCreatedDate).toLocaleString() }] : [])
+    ];
+
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body: [
+        {
+          type: 'Container',
+          style: 'emphasis',
+          items: [
+            {
+              type: 'TextBlock',
+              text: `Ticket #${ticket.TicketID}`,
+              weight: 'Bolder',
+              size: 'Large'
+            },
+            {
+              type: 'TextBlock',
+              text: ticket.TicketTitle,
+              wrap: true,
+              size: 'Medium'
+            }
+          ]
+        },
+        {
+          type: 'FactSet',
+          facts
+        },
+        {
+          type: 'TextBlock',
+          text: comments.length > 0 ? 'Latest updates' : 'No updates from the helpdesk yet.',
+          weight: 'Bolder',
+          spacing: 'Medium'
+        },
+        ...comments.slice(0, 3).map(comment => ({
+          type: 'TextBlock',
+          text: this.describeComment(comment),
+          wrap: true,
+          size: 'Small',
+          spacing: 'Small'
+        }))
+      ],
+      actions: [
+        {
+          type: 'Action.Submit',
+          title: 'All My Tickets',
+          data: { text: 'tickets' }
+        }
+      ]
+    };
+  }
+
+  private createTicketUpdateCard(
+    ticket: AteraTicket,
+    change: 'status' | 'reply',
+    latestComment?: AteraTicketComment
+  ): AdaptiveCard {
+    const isDone = ['Resolved', 'Closed'].includes(ticket.TicketStatus);
+    const headline = change === 'reply'
+      ? `💬 New reply on ticket #${ticket.TicketID}`
+      : isDone
+        ? `✅ Ticket #${ticket.TicketID} was ${ticket.TicketStatus.toLowerCase()}`
+        : `🔄 Ticket #${ticket.TicketID} is now ${ticket.TicketStatus}`;
+
+    const body: any[] = [
+      {
+        type: 'TextBlock',
+        text: headline,
+        weight: 'Bolder',
+        size: 'Large',
+        wrap: true,
+        color: isDone ? 'Good' : 'Default'
+      },
+      {
+        type: 'TextBlock',
+        text: ticket.TicketTitle,
+        wrap: true
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Status', value: ticket.TicketStatus },
+          { title: 'Technician', value: ticket.TechnicianFullName || 'Not yet assigned' }
+        ]
+      }
+    ];
+
+    if (latestComment) {
+      body.push({
+        type: 'TextBlock',
+        text: this.describeComment(latestComment),
+        wrap: true,
+        size: 'Small',
+        spacing: 'Medium'
+      });
+    }
+
+    const actions: any[] = isDone
+      ? [
+          {
+            type: 'Action.Submit',
+            title: 'Still broken? Reopen',
+            data: { action: 'reopenTicket', ticketId: ticket.TicketID },
+            style: 'destructive'
+          }
+        ]
+      : [
+          {
+            type: 'Action.Submit',
+            title: 'View Ticket',
+            data: { text: `ticket ${ticket.TicketID}` }
+          }
+        ];
+
+    return {
+      type: 'AdaptiveCard',
+      version: '1.4',
+      body,
+      actions
+    };
+  }
+
+  private createFeedbackSection(interactionId: number, feedback?: CardFeedbackState): any {
+    if (!feedback) {
+      return {
+        type: 'Container',
+        spacing: 'Medium',
+        separator: true,
+        items: [
+          {
+            type: 'TextBlock',
+            text: 'Was this helpful?',
+            weight: 'Bolder',
+            size: 'Medium'
+          },
+          {
+            type: 'ActionSet',
+            actions: [
+              {
+                type: 'Action.Submit',
+                title: '👍 This helped',
+                data: { action: 'feedback', interactionId, helpful: true }
+              },
+              {
+                type: 'Action.Submit',
+                title: '👎 Didn\'t help',
+                data: { action: 'feedback', interactionId, helpful: false }
+              }
+            ]
+          }
+        ]
+      };
+    }
+
+    if (feedback.helpful) {
+      return {
+        type: 'Container',
+        spacing: 'Medium',
+        separator: true,
+        items: [
+          {
+            type: 'TextBlock',
+            text: '👍 Thanks! Glad this helped.',
+            wrap: true,
+            color: 'Good'
+          }
+        ]
+      };
+    }
+
+    if (feedback.commentSubmitted) {
+      return {
+        type: 'Container',
+        spacing: 'Medium',
+        separator: true,
+        items: [
+          {
+            type: 'TextBlock',
+            text: '👎 Thanks for the details - we\'ll use them to improve our answers and articles.',
+            wrap: true,
+            color: 'Attention'
+          }
+        ]
+      };
+    }
+
+    // Not helpful: offer an optional short note on what was missing
+    return {
+      type: 'Container',
+      spacing: 'Medium',
+      separator: true,
+      items: [
+        {
+          type: 'TextBlock',
+          text: '👎 Sorry this didn\'t help. What was missing? (optional)',
+          wrap: true,
+          weight: 'Bolder'
+        },
+        {
+          type: 'Input.Text',
+          id: 'comment',
+          placeholder: 'e.g. the steps didn\'t match what I see on screen',
+          isMultiline: true,
+          maxLength: 500
+        },
+        {
+          type: 'ActionSet',
+          actions: [
+            {
+              type: 'Action.Submit',
+              title: 'Send',
+              data: { action: 'feedbackComment', interactionId }
+            }
+          ]
+        }
+      ]
+    };
+  }
+
   private simplifyTechnicalText(text: string): string {
     // Replace technical terms with simpler language
     return text
@@ -555,7 +1788,7 @@ export class ITSupportBot extends TeamsActivityHandler {
       .replace(/diagnostic/gi, 'check');
   }
 
-  private createBetterExcerpt(text: string): string {
+  private createBetterExcerpt(text: string, maxLength = 120): string {
     if (!text) return '';
     
     // Clean up the text by removing HTML and excess whitespace
@@ -565,15 +1798,15 @@ export class ITSupportBot extends TeamsActivityHandler {
       .trim();
     
     // Keep it concise but informative
-    if (cleaned.length <= 120) {
+    if (cleaned.length <= maxLength) {
       return cleaned;
     }
     
-    // Find a good breaking point near 120 characters
-    const truncated = cleaned.substring(0, 120);
+    // Find a good breaking point near the limit
+    const truncated = cleaned.substring(0, maxLength);
     const lastSpace = truncated.lastIndexOf(' ');
     
-    if (lastSpace > 80) {
+    if (lastSpace > maxLength * 2 / 3) {
       return truncated.substring(0, lastSpace) + '...';
     }
     
@@ -596,6 +1829,9 @@ export class ITSupportBot extends TeamsActivityHandler {
 **Available Commands:**
 - **help** - Show this help message
 - **status** - Check bot status
+- **tickets** - List your open helpdesk tickets
+- **ticket 1234** - Show the status and latest updates for a ticket
+- **new issue** - Start a new conversation about a different problem
 - Simply describe your IT issue for assistance
 
 **Example queries:**
@@ -609,12 +1845,36 @@ export class ITSupportBot extends TeamsActivityHandler {
   }
 
   private async sendStatusMessage(context: TurnContext): Promise<void> {
+    const report = await healthMonitor.readiness();
+    const { knowledge_base, openai, atera_api, database } = report.checks;
+    const headline = {
+      healthy: '✅ Online',
+      degraded: '⚠️ Online with limited features',
+      unhealthy: '❌ Having problems',
+    }[report.status];
+
+    // Employees see what works; the error detail stays on the dashboard
+    const line = (label: string, check: HealthCheck, upText: string, downText: string) => {
+      const latency = check.status === 'up' && check.latencyMs !== null ? ` (${check.latencyMs} ms)` : '';
+      const icon = check.status === 'up' ? '✅' : check.status === 'degraded' ? '⚠️' : '❌';
+      return `- ${label}: ${icon} ${check.status === 'up' || check.status === 'degraded' ? upText : downText}${latency}`;
+    };
+
+    let articlesText = 'Unavailable';
+    if (knowledge_base.articles === 0) {
+      articlesText = 'No articles available';
+    } else if (knowledge_base.articles) {
+      const age = knowledge_base.lastSyncAgeMinutes;
+      const synced = age === null ? '' : age < 120 ? `, synced ${age} minutes ago` : `, synced ${Math.round(age / 60)} hours ago`;
+      articlesText = `${knowledge_base.articles} articles${synced}`;
+    }
+
     const statusText = `
-**Bot Status: ✅ Online**
-- Knowledge Base: Connected
-- AI Analysis: Available  
-- Response Time: < 3 seconds
-- Articles Available: 50+ technical guides
+**Bot Status: ${headline}**
+${line('Knowledge Base', knowledge_base, articlesText, articlesText)}
+${line('AI Analysis', openai, 'Available', 'Unavailable, answering from knowledge base articles only')}
+${line('Ticketing', atera_api, 'Available', 'Unavailable, please contact IT directly')}
+${line('Database', database, 'Connected', 'Unavailable')}
     `;
     
     await context.sendActivity(MessageFactory.text(statusText));
@@ -632,22 +1892,58 @@ export class ITSupportBot extends TeamsActivityHandler {
     userQuery: string, 
     searchResults: any[],
     supportResponse: ITSupportResponse,
-    responseTime: number
-  ): Promise<void> {
+    responseTime: number,
+    redactionCounts: RedactionCounts,
+    classification: InputClassification
+  ): Promise<number | undefined> {
     try {
       const interaction = {
         userId,
         userQuery,
-        generatedKeywords: [],
+        generatedKeywords: knowledgeBaseRetriever.searchTerms(userQuery),
         foundArticles: searchResults,
         aiResponse: JSON.stringify(supportResponse.analysis),
         responseTime,
-        wasHelpful: null
+        wasHelpful: null,
+        responseMode: supportResponse.analysis.fallbackReason ? 'fallback' : 'ai',
+        fallbackReason: supportResponse.analysis.fallbackReason || null,
+        redactionCounts,
+        inputClassification: classification.category,
+        classificationReason: classification.reason,
       };
       
-      await storage.createSupportInteraction(interaction);
+      const stored = await storage.createSupportInteraction(interaction);
+      return stored.id;
     } catch (error) {
       console.error('Failed to store interaction:', error);
+      return undefined;
+    }
+  }
+
+  private async storeRefusal(
+    userId: string,
+    userQuery: string,
+    refusal: RefusalMessage,
+    classification: InputClassification,
+    responseTime: number,
+    redactionCounts: RedactionCounts
+  ): Promise<void> {
+    try {
+      await storage.createSupportInteraction({
+        userId,
+        userQuery,
+        generatedKeywords: [],
+        foundArticles: [],
+        aiResponse: refusal.text,
+        responseTime,
+        wasHelpful: null,
+        responseMode: 'refused',
+        redactionCounts,
+        inputClassification: classification.category,
+        classificationReason: classification.reason,
+      });
+    } catch (error) {
+      console.error('Failed to store refused interaction:', error);
     }
   }
 }
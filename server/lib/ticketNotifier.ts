@@ -0,0 +1,163 @@
+import { BotFrameworkAdapter, type ConversationReference } from 'botbuilder';
+import { storage } from '../storage.js';
+import { ateraClient, type AteraTicket, type AteraTicketComment } from './ateraClient.js';
+import { itSupportBot } from './teamsBot.js';
+
+export type TicketChange = 'status' | 'reply';
+
+export class TicketNotifier {
+  private pollIntervalMinutes = parseInt(process.env.TICKET_POLL_INTERVAL_MINUTES || '5', 10);
+  private maxNotifyAttempts = parseInt(process.env.TICKET_NOTIFY_MAX_ATTEMPTS || '5', 10);
+  // Failed notifications per ticket, for the ticket state they were about
+  private failedAttempts = new Map<number, { state: string; attempts: number }>();
+  private adapter?: BotFrameworkAdapter;
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  start(adapter: BotFrameworkAdapter): void {
+    this.adapter = adapter;
+
+    if (!ateraClient.isConfigured()) {
+      console.log('⏸️ Ticket notifications disabled: ATERA_API_TOKEN not configured');
+      return;
+    }
+
+    console.log(`🔔 Watching Atera tickets for changes every ${this.pollIntervalMinutes} minutes`);
+    this.pollTimer = setInterval(async () => {
+      try {
+        await this.pollOnce();
+      } catch (error) {
+        console.error('❌ Error polling Atera tickets:', error instanceof Error ? error.message : 'Unknown error');
+      }
+    }, this.pollIntervalMinutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+  }
+
+  // Check the tickets of every user the bot can reach and notify them of changes
+  async pollOnce(): Promise<number> {
+    if (this.polling) return 0;
+    this.polling = true;
+
+    let notified = 0;
+    try {
+      const references = await storage.getConversationReferences();
+      const emails = Array.from(new Set(
+        references.map(reference => reference.email?.toLowerCase()).filter((email): email is string => !!email)
+      ));
+
+      for (const email of emails) {
+        try {
+          const contact = await ateraClient.findContactByEmail(email);
+          if (!contact) continue;
+
+          const tickets = await ateraClient.listTicketsForContact(contact);
+          for (const ticket of tickets) {
+            if (await this.processTicket(ticket, false)) notified++;
+          }
+        } catch (error) {
+          console.error(`❌ Failed to check tickets for ${email}:`, error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    if (notified > 0) {
+      console.log(`🔔 Sent ${notified} ticket update notifications`);
+    }
+    return notified;
+  }
+
+  // Called by the Atera webhook when a specific ticket changed
+  async checkTicket(ticketId: number): Promise<boolean> {
+    const ticket = await ateraClient.getTicket(ticketId);
+    if (!ticket) return false;
+    return this.processTicket(ticket, true);
+  }
+
+  // The snapshot is the last state the requester was told about, so it only moves on once a
+  // change has been delivered; a failed notification is retried on the next few checks and
+  // then given up on so the same change isn't retried forever
+  private async processTicket(ticket: AteraTicket, notifyIfUnseen: boolean): Promise<boolean> {
+    const snapshot = await storage.getTicketSnapshot(ticket.TicketID);
+    const saveSnapshot = () => storage.saveTicketSnapshot({
+      ticketId: ticket.TicketID,
+      endUserEmail: ticket.EndUserEmail || snapshot?.endUserEmail || null,
+      status: ticket.TicketStatus,
+      technician: ticket.TechnicianFullName || null,
+      lastTechnicianCommentAt: ticket.LastTechnicianCommentTimestamp || null,
+    });
+
+    // The first time we see a ticket only establishes a baseline, unless Atera told us it changed
+    if (!snapshot && !notifyIfUnseen) {
+      await saveSnapshot();
+      return false;
+    }
+
+    let change: TicketChange | undefined;
+    if (!snapshot || snapshot.status !== ticket.TicketStatus) {
+      change = 'status';
+    } else if (
+      ticket.LastTechnicianCommentTimestamp &&
+      ticket.LastTechnicianCommentTimestamp !== snapshot.lastTechnicianCommentAt
+    ) {
+      change = 'reply';
+    }
+
+    if (!change) {
+      await saveSnapshot();
+      return false;
+    }
+
+    const notified = await this.notify(ticket, change, snapshot?.endUserEmail || undefined);
+    if (notified) {
+      this.failedAttempts.delete(ticket.TicketID);
+      await saveSnapshot();
+      return true;
+    }
+
+    const state = `${ticket.TicketStatus}|${ticket.LastTechnicianCommentTimestamp || ''}`;
+    const previous = this.failedAttempts.get(ticket.TicketID);
+    const attempts = previous?.state === state ? previous.attempts + 1 : 1;
+    if (attempts >= this.maxNotifyAttempts) {
+      console.warn(`⚠️ Giving up on the ${change} notification for ticket ${ticket.TicketID} after ${attempts} attempts`);
+      this.failedAttempts.delete(ticket.TicketID);
+      await saveSnapshot();
+    } else {
+      this.failedAttempts.set(ticket.TicketID, { state, attempts });
+    }
+    return false;
+  }
+
+  private async notify(ticket: AteraTicket, change: TicketChange, fallbackEmail?: string): Promise<boolean> {
+    const email = ticket.EndUserEmail || fallbackEmail;
+    if (!email || !this.adapter) return false;
+
+    const record = await storage.getConversationReferenceByEmail(email);
+    if (!record) return false;
+
+    let latestComment: AteraTicketComment | undefined;
+    try {
+      [latestComment] = await ateraClient.getTicketComments(ticket.TicketID);
+    } catch (error) {
+      console.error(`Failed to load comments for ticket ${ticket.TicketID}:`, error);
+    }
+
+    try {
+      await this.adapter.continueConversation(record.reference as Partial<ConversationReference>, async context => {
+        await itSupportBot.sendTicketUpdate(context, ticket, change, latestComment);
+      });
+      console.log(`🔔 Notified ${email} about ${change} on ticket ${ticket.TicketID}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to notify ${email} about ticket ${ticket.TicketID}:`, error);
+      return false;
+    }
+  }
+}
+
+export const ticketNotifier = new TicketNotifier();
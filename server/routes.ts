@@ -1,12 +1,265 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage.js";
+import { createHash, timingSafeEqual } from "crypto";
+import { storage, interactionSeverity, type InteractionFilters } from "./storage.js";
+import type { User } from "@shared/schema.js";
 import { BotFrameworkAdapter, ConversationState, MemoryStorage, UserState } from 'botbuilder';
 import { itSupportBot } from './lib/teamsBot.js';
 import { aiAnalyst } from './lib/aiAnalyst.js';
 import { dailyKnowledgeBaseSync } from './lib/dailyKnowledgeBaseSync.js';
+import { ticketNotifier } from './lib/ticketNotifier.js';
+import { healthMonitor } from './lib/healthChecks.js';
+import { articleClickTracker } from './lib/articleTracking.js';
+import { AuthError, authenticator, createSessionMiddleware, hashPassword, isUserRole, requireRole, userRoles, type SessionUser } from './lib/auth.js';
+import { analyticsRollup, dayKey, timeseriesBuckets, timeseriesMetrics, type TimeseriesBucket, type TimeseriesMetric } from './lib/analyticsRollup.js';
+
+const helpfulnessFilters = ['helpful', 'not_helpful', 'no_feedback'];
+const maxTimeseriesDays = 731;
+
+// Reads an inclusive from/to day range (YYYY-MM-DD, UTC), defaulting to the last `defaultDays` days
+function parseDayRange(query: Record<string, unknown>, defaultDays: number): { from: string; to: string } | { error: string } {
+  const day = (name: string) => {
+    const value = typeof query[name] === 'string' ? String(query[name]).trim() : '';
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : dayKey(date);
+  };
+
+  const to = day('to');
+  const from = day('from');
+  if (to === null || from === null) return { error: 'from and to must be dates (YYYY-MM-DD)' };
+
+  const toDay = to || dayKey(new Date());
+  const fromDay = from || dayKey(new Date(new Date(`${toDay}T00:00:00.000Z`).getTime() - (defaultDays - 1) * 24 * 60 * 60 * 1000));
+  if (fromDay > toDay) return { error: 'from must not be after to' };
+
+  const days = (new Date(toDay).getTime() - new Date(fromDay).getTime()) / (24 * 60 * 60 * 1000) + 1;
+  if (days > maxTimeseriesDays) return { error: `The range can cover at most ${maxTimeseriesDays} days` };
+
+  return { from: fromDay, to: toDay };
+}
+
+// Turns interaction browser query parameters into storage filters, or an error message
+function parseInteractionFilters(query: Record<string, unknown>): { filters: InteractionFilters } | { error: string } {
+  const text = (name: string) => typeof query[name] === 'string' && query[name] ? String(query[name]).trim() : undefined;
+  const filters: InteractionFilters = {
+    userId: text('userId'),
+    severity: text('severity'),
+    responseMode: text('responseMode'),
+    articleId: text('articleId'),
+  };
+
+  for (const name of ['from', 'to'] as const) {
+    const value = text(name);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return { error: `${name} must be a date` };
+    // A bare date as the upper bound covers that whole day
+    if (name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)) date.setUTCHours(23, 59, 59, 999);
+    filters[name] = date;
+  }
+
+  for (const name of ['minResponseTime', 'maxResponseTime'] as const) {
+    const value = text(name);
+    if (!value) continue;
+    const ms = Number(value);
+    if (!Number.isFinite(ms) || ms < 0) return { error: `${name} must be a number of milliseconds` };
+    filters[name] = ms;
+  }
+
+  const helpfulness = text('helpfulness');
+  if (helpfulness) {
+    if (!helpfulnessFilters.includes(helpfulness)) {
+      return { error: `helpfulness must be one of ${helpfulnessFilters.join(', ')}` };
+    }
+    filters.helpfulness = helpfulness as InteractionFilters['helpfulness'];
+  }
+
+  const articlesShown = text('articlesShown');
+  if (articlesShown) {
+    if (articlesShown !== 'true' && articlesShown !== 'false') return { error: 'articlesShown must be true or false' };
+    filters.articlesShown = articlesShown === 'true';
+  }
+
+  return { filters };
+}
+
+// Starts a fresh session for the signed-in user so a session id from before sign-in can't be reused
+function signIn(req: Request, user: SessionUser): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate(error => {
+      if (error) return reject(error);
+      req.session.user = user;
+      req.session.save(saveError => saveError ? reject(saveError) : resolve());
+    });
+  });
+}
+
+// Only ever send users back to a dashboard page on this site after sign-in. Browsers read
+// "/\evil.com" as "//evil.com", so backslashes and control characters are refused outright.
+function safeReturnTo(value: unknown): string {
+  const fallback = '/admin/dashboard';
+  if (typeof value !== 'string' || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) return fallback;
+
+  const origin = 'http://dashboard.invalid';
+  let url: URL;
+  try {
+    url = new URL(value, origin);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== origin || !/^\/admin(\/|$)/.test(url.pathname)) return fallback;
+  return url.pathname + url.search + url.hash;
+}
+
+// Compares digests so the check takes the same time whatever the length of the guess
+function secretMatches(provided: string | undefined, secret: string): boolean {
+  if (!provided) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(secret));
+}
+
+function userSummary(user: User) {
+  return { id: user.id, username: user.username, role: user.role };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Azure App Service terminates TLS in front of the app; trust it so secure cookies are sent
+  app.set('trust proxy', 1);
+  app.use(createSessionMiddleware());
+  await authenticator.ensureBootstrapAdmin().catch(error => console.error('❌ Failed to create admin account:', error));
+
+  // Which sign-in options the login page should offer
+  app.get('/api/auth/providers', (req, res) => {
+    res.json({ entra: authenticator.entraEnabled, local: authenticator.localEnabled });
+  });
+
+  app.get('/api/auth/me', (req, res) => {
+    if (!req.session.user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    res.json({ user: req.session.user });
+  });
+
+  app.post('/api/auth/login', async (req, res) => {
+    const { username, password } = req.body || {};
+    if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+      return res.status(400).json({ error: 'username and password are required' });
+    }
+
+    try {
+      const user = await authenticator.loginWithPassword(username, password, req.ip || req.socket.remoteAddress || 'unknown');
+      await signIn(req, user);
+      console.log(`🔐 ${user.username} signed in (${user.role})`);
+      res.json({ user });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('Login error:', error);
+      res.status(500).json({ error: 'Failed to sign in' });
+    }
+  });
+
+  // Entra ID sign-in: send the browser to Microsoft, which comes back to /api/auth/callback
+  app.get('/api/auth/login', async (req, res) => {
+    try {
+      res.redirect(302, await authenticator.entraLoginUrl(req, safeReturnTo(req.query.returnTo)));
+    } catch (error) {
+      if (!(error instanceof AuthError)) console.error('Entra sign-in error:', error);
+      const message = error instanceof AuthError ? error.message : 'Could not reach Entra ID';
+      res.redirect(302, `/admin/login?error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  app.get('/api/auth/callback', async (req, res) => {
+    try {
+      const { user, returnTo } = await authenticator.completeEntraLogin(req);
+      await signIn(req, user);
+      console.log(`🔐 ${user.username} signed in with Entra ID (${user.role})`);
+      res.redirect(302, returnTo);
+    } catch (error) {
+      console.error('Entra callback error:', error);
+      const message = error instanceof AuthError ? error.message : 'Sign-in with Entra ID failed';
+      res.redirect(302, `/admin/login?error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    req.session.destroy(error => {
+      if (error) {
+        console.error('Logout error:', error);
+        return res.status(500).json({ error: 'Failed to sign out' });
+      }
+      res.clearCookie('helpdesk.sid');
+      res.json({ success: true });
+    });
+  });
+
+  // Local accounts (Entra users are managed through app role assignments instead)
+  app.get('/api/auth/users', requireRole('admin'), async (req, res) => {
+    try {
+      const users = await storage.listUsers();
+      res.json({ users: users.map(userSummary) });
+    } catch (error) {
+      console.error('List users error:', error);
+      res.status(500).json({ error: 'Failed to list users' });
+    }
+  });
+
+  app.post('/api/auth/users', requireRole('admin'), async (req, res) => {
+    const { username, password, role = 'viewer' } = req.body || {};
+    if (typeof username !== 'string' || !username.trim()) {
+      return res.status(400).json({ error: 'username is required' });
+    }
+    if (typeof password !== 'string' || password.length < 12) {
+      return res.status(400).json({ error: 'password must be at least 12 characters' });
+    }
+    if (!isUserRole(role)) {
+      return res.status(400).json({ error: `role must be one of ${userRoles.join(', ')}` });
+    }
+
+    try {
+      if (await storage.getUserByUsername(username.trim())) {
+        return res.status(409).json({ error: 'A user with that username already exists' });
+      }
+      const user = await storage.createUser({ username: username.trim(), password: await hashPassword(password), role });
+      console.log(`🔐 ${req.session.user!.username} created ${user.username} (${user.role})`);
+      res.status(201).json({ user: userSummary(user) });
+    } catch (error) {
+      console.error('Create user error:', error);
+      res.status(500).json({ error: 'Failed to create user' });
+    }
+  });
+
+  app.patch('/api/auth/users/:id', requireRole('admin'), async (req, res) => {
+    const id = parseInt(req.params.id, 10);
+    const { password, role } = req.body || {};
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user id' });
+    }
+    if (password !== undefined && (typeof password !== 'string' || password.length < 12)) {
+      return res.status(400).json({ error: 'password must be at least 12 characters' });
+    }
+    if (role !== undefined && !isUserRole(role)) {
+      return res.status(400).json({ error: `role must be one of ${userRoles.join(', ')}` });
+    }
+
+    try {
+      const user = await storage.updateUser(id, {
+        ...(password !== undefined ? { password: await hashPassword(password) } : {}),
+        ...(role !== undefined ? { role } : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json({ user: userSummary(user) });
+    } catch (error) {
+      console.error('Update user error:', error);
+      res.status(500).json({ error: 'Failed to update user' });
+    }
+  });
+
   // Create bot adapter
   const adapter = new BotFrameworkAdapter({
     appId: process.env.MICROSOFT_APP_ID || '',
@@ -24,18 +277,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     await context.sendActivity('Sorry, an error occurred while processing your request.');
   };
 
-  // Teams bot endpoint
+  // Teams bot endpoint. The message text is left out of the log; the bot logs it once redacted
   app.post('/api/messages', async (req, res) => {
     console.log('Received message from Teams:', {
       type: req.body?.type,
-      text: req.body?.text,
       from: req.body?.from?.id,
       conversation: req.body?.conversation?.id
     });
     
     try {
       await adapter.processActivity(req, res, async (context) => {
-        console.log('Processing activity:', context.activity.type, context.activity.text);
+        console.log('Processing activity:', context.activity.type);
         await itSupportBot.run(context);
       });
     } catch (error) {
@@ -44,8 +296,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Push ticket status changes to the users who raised them
+  ticketNotifier.start(adapter);
+
+  // Keep the daily analytics rollups behind /api/analytics/timeseries up to date
+  analyticsRollup.start();
+
+  // Atera webhook - notifies us that a ticket changed so the requester hears about it right away
+  app.post('/api/webhooks/atera', async (req, res) => {
+    const secret = process.env.ATERA_WEBHOOK_SECRET;
+    if (!secret) {
+      return res.status(503).json({ error: 'The Atera webhook is not configured' });
+    }
+    if (!secretMatches(req.header('X-Webhook-Secret'), secret)) {
+      return res.status(401).json({ error: 'Invalid webhook secret' });
+    }
+
+    const ticketId = Number(req.body?.TicketID ?? req.body?.ticketId);
+    if (!Number.isInteger(ticketId)) {
+      return res.status(400).json({ error: 'TicketID is required' });
+    }
+
+    try {
+      const notified = await ticketNotifier.checkTicket(ticketId);
+      res.json({ success: true, ticketId, notified });
+    } catch (error) {
+      console.error('Atera webhook error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to process ticket update',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Run a ticket change check on demand (the watcher also runs on a timer)
+  app.post('/api/tickets/check-updates', requireRole('admin'), async (req, res) => {
+    try {
+      const notified = await ticketNotifier.pollOnce();
+      res.json({ success: true, notified });
+    } catch (error) {
+      console.error('Ticket update check error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check ticket updates',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Test knowledge base search endpoint
-  app.post('/api/test/kb-search', async (req, res) => {
+  app.post('/api/test/kb-search', requireRole('kb_editor'), async (req, res) => {
     try {
       const { query } = req.body;
       console.log(`Testing KB search for: "${query}"`);
@@ -77,24 +378,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  // Article links in support cards land here so opens are counted, then go on to the article
+  app.get('/api/kb/open/:interactionId/:position/:signature', async (req, res) => {
+    try {
+      const interactionId = parseInt(req.params.interactionId, 10);
+      const position = parseInt(req.params.position, 10);
+      if (isNaN(interactionId) || isNaN(position) || position < 1) {
+        return res.status(400).send('Invalid article link');
+      }
+      if (!articleClickTracker.isSigned(interactionId, position, req.params.signature)) {
+        return res.status(404).send('This article link is not valid. Please ask the bot again.');
+      }
+
+      const url = await articleClickTracker.open(interactionId, position);
+      if (!url) {
+        return res.status(404).send('This article link has expired. Please ask the bot again.');
+      }
+
+      res.redirect(302, url);
+    } catch (error) {
+      console.error('Article redirect error:', error);
+      res.status(500).send('Could not open the article');
+    }
+  });
+
   // Health check endpoint
-  app.get('/api/health', (req, res) => {
-    const health = {
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      services: {
-        teams_bot: !!(process.env.MICROSOFT_APP_ID && process.env.MICROSOFT_APP_PASSWORD),
-        database: !!process.env.DATABASE_URL,
-        atera_api: !!process.env.ATERA_API_TOKEN,
-        openai: !!process.env.OPENAI_API_KEY,
-      },
-    };
-    
-    res.json(health);
+  // Full report of every dependency probe; always 200 so the dashboard can show what is wrong
+  app.get('/api/health', requireRole('viewer'), async (req, res) => {
+    try {
+      const report = await healthMonitor.readiness(req.query.refresh === 'true');
+      res.json({
+        ...report,
+        services: Object.fromEntries(
+          Object.entries(report.checks).map(([name, check]) => [name, check.status === 'up'])
+        ),
+      });
+    } catch (error) {
+      console.error('Health check error:', error);
+      res.status(500).json({ status: 'unhealthy', error: 'Failed to run health checks' });
+    }
+  });
+
+  // Liveness: the process is up; restart it only when this fails
+  app.get('/api/health/live', (req, res) => {
+    res.json(healthMonitor.liveness());
+  });
+
+  // Readiness: 503 while the bot can't answer questions, so traffic is held back.
+  // It is public for load balancers, so it leaves out the error detail /api/health has
+  app.get('/api/health/ready', async (req, res) => {
+    try {
+      const report = await healthMonitor.readiness();
+      res.status(report.status === 'unhealthy' ? 503 : 200).json({
+        status: report.status,
+        timestamp: report.timestamp,
+        checks: Object.fromEntries(Object.entries(report.checks).map(([name, check]) => [name, check.status])),
+      });
+    } catch (error) {
+      console.error('Readiness check error:', error);
+      res.status(503).json({ status: 'unhealthy', error: 'Failed to run health checks' });
+    }
   });
 
   // System configuration status
-  app.get('/api/bot/config', async (req, res) => {
+  app.get('/api/bot/config', requireRole('viewer'), async (req, res) => {
     try {
       const config = {
         teams_bot_configured: !!(process.env.MICROSOFT_APP_ID && process.env.MICROSOFT_APP_PASSWORD),
@@ -133,7 +480,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update database with latest articles from Atera API
-  app.post('/api/admin/update-articles', async (req, res) => {
+  app.post('/api/admin/update-articles', requireRole('admin'), async (req, res) => {
     try {
       console.log('Updating knowledge base with latest articles...');
       
@@ -215,7 +562,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin route to update privacy flags and clean database
-  app.post("/api/admin/clean-private-articles", async (req, res) => {
+  app.post("/api/admin/clean-private-articles", requireRole('admin'), async (req, res) => {
     try {
       const token = process.env.ATERA_API_TOKEN;
       if (!token) {
@@ -281,7 +628,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get knowledge base statistics  
-  app.get('/api/admin/kb-stats', async (req, res) => {
+  app.get('/api/admin/kb-stats', requireRole('admin'), async (req, res) => {
     try {
       const pkg = await import('pg');
       const { Pool } = pkg.default;
@@ -309,7 +656,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get automatic update status
-  app.get('/api/updates/status', async (req, res) => {
+  app.get('/api/updates/status', requireRole('viewer'), async (req, res) => {
     try {
       const stats = await incrementalUpdater.getUpdateStats();
       res.json(stats);
@@ -320,7 +667,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Consolidated daily sync (replaces separate migration, incremental, and keyword endpoints)
-  app.post('/api/sync/daily', async (req, res) => {
+  app.post('/api/sync/daily', requireRole('kb_editor'), async (req, res) => {
     try {
       console.log('🚀 Starting manual daily sync...');
       const stats = await dailyKnowledgeBaseSync.triggerManualSync();
@@ -332,6 +679,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           articlesAdded: stats.articlesAdded,
           articlesUpdated: stats.articlesUpdated,
           keywordsGenerated: stats.keywordsGenerated,
+          chunksIndexed: stats.chunksIndexed,
+          embeddingsGenerated: stats.embeddingsGenerated,
           totalArticles: stats.totalArticles,
           errors: stats.errors,
           lastSyncTime: stats.lastSyncTime
@@ -348,7 +697,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get sync status
-  app.get('/api/sync/status', async (req, res) => {
+  app.get('/api/sync/status', requireRole('viewer'), async (req, res) => {
     try {
       const stats = await dailyKnowledgeBaseSync.getSyncStats();
       res.json({
@@ -366,7 +715,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Regenerate keywords with improved logic
-  app.post('/api/sync/regenerate-keywords', async (req, res) => {
+  app.post('/api/sync/regenerate-keywords', requireRole('kb_editor'), async (req, res) => {
     try {
       console.log('🔄 Starting keyword regeneration with improved logic...');
       
@@ -393,7 +742,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate keywords for articles endpoint
-  app.post('/api/keywords/generate', async (req, res) => {
+  app.post('/api/keywords/generate', requireRole('kb_editor'), async (req, res) => {
     try {
       const { batchSize = 5 } = req.body;
       
@@ -418,8 +767,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const OpenAI = (await import('openai')).default;
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      const { llmProvider } = await import('./lib/llmProvider.js');
+      const { generateStructured } = await import('./lib/structuredOutput.js');
+      const { keywordGenerationSchema } = await import('./lib/llmSchemas.js');
+      const { sanitizeForPrompt } = await import('./lib/promptSanitizer.js');
       
       let processed = 0;
       let errors = 0;
@@ -428,27 +779,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         try {
           const contentToAnalyze = `
 Title: ${article.title}
-Content: ${article.content.substring(0, 1500)}${article.content.length > 1500 ? '...' : ''}
+Content: ${sanitizeForPrompt(article.content.substring(0, 1500))}${article.content.length > 1500 ? '...' : ''}
           `.trim();
           
-          const response = await openai.chat.completions.create({
-            model: "gpt-4o",
-            messages: [
-              {
-                role: "system",
-                content: `Generate search keywords for this IT support article. Include technical terms, user phrases, error messages, software names, and action words. Return JSON with "keywords" array of 20-30 terms.`
-              },
-              {
-                role: "user", 
-                content: contentToAnalyze
-              }
-            ],
-            response_format: { type: "json_object" },
-            max_tokens: 400
-          });
-          
-          const keywordData = JSON.parse(response.choices[0].message.content);
-          const keywords = keywordData.keywords || [];
+          const { keywords } = await generateStructured(llmProvider, [
+            {
+              role: "system",
+              content: `Generate search keywords for this IT support article. Include technical terms, user phrases, error messages, software names, and action words. Return JSON with "keywords" array of 20-30 terms.`
+            },
+            {
+              role: "user", 
+              content: contentToAnalyze
+            }
+          ], keywordGenerationSchema, 'Article keywords', { maxTokens: 400 });
           
           await pool.query(
             'UPDATE knowledge_base_articles SET search_keywords = $1 WHERE article_id = $2',
@@ -500,7 +843,7 @@ Content: ${article.content.substring(0, 1500)}${article.content.length > 1500 ?
   });
 
   // Legacy migration endpoint - replaced by daily sync
-  app.post('/api/admin/fix-content', async (req, res) => {
+  app.post('/api/admin/fix-content', requireRole('admin'), async (req, res) => {
     try {
       console.log('Redirecting to consolidated daily sync...');
       const stats = await dailyKnowledgeBaseSync.triggerManualSync();
@@ -520,7 +863,7 @@ Content: ${article.content.substring(0, 1500)}${article.content.length > 1500 ?
   });
 
   // Search your real knowledge base articles
-  app.post('/api/test/search', async (req, res) => {
+  app.post('/api/test/search', requireRole('kb_editor'), async (req, res) => {
     try {
       const { query } = req.body;
       
@@ -582,7 +925,7 @@ Content: ${article.content.substring(0, 1500)}${article.content.length > 1500 ?
   });
 
   // Test AI-powered bot response with real knowledge base
-  app.post('/api/test/bot-response', async (req, res) => {
+  app.post('/api/test/bot-response', requireRole('kb_editor'), async (req, res) => {
     try {
       const { message } = req.body;
       
@@ -648,13 +991,171 @@ Content: ${article.content.substring(0, 1500)}${article.content.length > 1500 ?
 
 
 
+  // Search Lab: each step the bot takes for a query, without sending anything to Teams
+  app.post('/api/test/search-lab', requireRole('kb_editor'), async (req, res) => {
+    try {
+      const { query } = req.body;
+
+      if (!query) {
+        return res.status(400).json({ error: 'Query parameter is required' });
+      }
+
+      const { redactor } = await import('./lib/redaction.js');
+      const { inputGuard } = await import('./lib/inputGuard.js');
+      const { knowledgeBaseRetriever } = await import('./lib/knowledgeBaseRetriever.js');
+
+      // Same steps as a Teams message: redact, classify, then retrieve and analyze
+      const redaction = redactor.redact(query);
+      const text = redaction.text;
+
+      const classifyStart = Date.now();
+      const classification = await inputGuard.classify(text);
+      const classifyTime = Date.now() - classifyStart;
+
+      if (classification.category !== 'support') {
+        return res.json({
+          query: text,
+          redactions: redaction.counts,
+          classification,
+          searchTerms: [],
+          retrievers: { lexical: [], semantic: [] },
+          fused: [],
+          analysis: {},
+          card: itSupportBot.previewRefusalCard(classification.category),
+          timings: { classify_ms: classifyTime, search_ms: 0, analysis_ms: 0 },
+        });
+      }
+
+      const searchStart = Date.now();
+      const search = await knowledgeBaseRetriever.hybridSearch(text, 3);
+      const searchTime = Date.now() - searchStart;
+
+      const analysisStart = Date.now();
+      const response = await itSupportBot.generateAIResponse(text, search.fused);
+      const analysisTime = Date.now() - analysisStart;
+
+      const rankedCandidates = (candidates: typeof search.lexical) => candidates.map((candidate, index) => ({
+        rank: index + 1,
+        articleId: candidate.articleId,
+        title: candidate.title,
+        heading: candidate.heading,
+        score: candidate.score,
+        excerpt: candidate.content.substring(0, 160),
+      }));
+
+      res.json({
+        query: text,
+        redactions: redaction.counts,
+        classification,
+        searchTerms: knowledgeBaseRetriever.searchTerms(text),
+        retrievers: {
+          lexical: rankedCandidates(search.lexical),
+          semantic: rankedCandidates(search.semantic),
+        },
+        fused: search.fused.map((article, index) => ({
+          rank: index + 1,
+          articleId: article.articleId,
+          title: article.title,
+          url: article.url,
+          sectionHeading: article.sectionHeading,
+          relevanceScore: article.relevanceScore,
+          matchedBy: article.matchedBy,
+        })),
+        analysis: response.analysis,
+        card: itSupportBot.createSupportResponseCard(response),
+        timings: { classify_ms: classifyTime, search_ms: searchTime, analysis_ms: analysisTime },
+      });
+    } catch (error) {
+      console.error('Search lab error:', error);
+      res.status(500).json({ 
+        error: 'Search lab failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Exact card JSON the bot sends: ?card=welcome, ?interactionId=12 or ?query=...
+  app.get('/api/cards/preview', requireRole('kb_editor'), async (req, res) => {
+    try {
+      const { card, interactionId, query } = req.query;
+
+      if (interactionId) {
+        const interaction = await storage.getSupportInteraction(parseInt(String(interactionId), 10));
+        if (!interaction) {
+          return res.status(404).json({ error: `Interaction ${interactionId} not found` });
+        }
+        return res.json({ source: 'interaction', interactionId: interaction.id, card: itSupportBot.previewInteractionCard(interaction) });
+      }
+
+      if (query) {
+        return res.json({ source: 'query', query, card: await itSupportBot.previewQueryCard(String(query)) });
+      }
+
+      if (card === 'welcome') {
+        return res.json({ source: 'welcome', card: itSupportBot.createWelcomeCard() });
+      }
+
+      res.status(400).json({ error: 'Pass card=welcome, interactionId or query' });
+    } catch (error) {
+      console.error('Card preview error:', error);
+      res.status(500).json({ 
+        error: 'Card preview failed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Golden set used by the eval harness (npm run eval)
+  app.get('/api/eval/golden-cases', requireRole('viewer'), async (req, res) => {
+    try {
+      const { loadGoldenSet, defaultGoldenSetPath } = await import('./eval/goldenSet.js');
+      res.json({ file: defaultGoldenSetPath, cases: loadGoldenSet() });
+    } catch (error) {
+      console.error('Golden set read error:', error);
+      res.status(500).json({ error: 'Failed to read golden set' });
+    }
+  });
+
+  app.post('/api/eval/golden-cases', requireRole('kb_editor'), async (req, res) => {
+    try {
+      const { saveGoldenCase, validateGoldenCase, goldenCaseId } = await import('./eval/goldenSet.js');
+      const { query, expectedArticleIds, mustMention, mustNotMention } = req.body;
+
+      const golden = {
+        id: req.body.id || goldenCaseId(query || ''),
+        query,
+        expectedArticleIds,
+        ...(Array.isArray(mustMention) && mustMention.length > 0 ? { mustMention } : {}),
+        ...(Array.isArray(mustNotMention) && mustNotMention.length > 0 ? { mustNotMention } : {}),
+      };
+
+      const problem = validateGoldenCase(golden);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+
+      const { created, total } = saveGoldenCase(golden);
+      console.log(`🧪 ${created ? 'Added' : 'Updated'} golden case "${golden.id}" (${total} cases)`);
+      res.status(created ? 201 : 200).json({ case: golden, created, total });
+    } catch (error) {
+      console.error('Golden set write error:', error);
+      res.status(500).json({ error: 'Failed to save golden case' });
+    }
+  });
+
   // Get interaction analytics
-  app.get('/api/analytics/interactions', async (req, res) => {
+  app.get('/api/analytics/interactions', requireRole('viewer'), async (req, res) => {
     try {
       const interactions = await storage.getRecentInteractions(50);
+      const responseModes = await storage.getResponseModeStats();
       
       const analytics = {
-        total_interactions: interactions.length,
+        total_interactions: responseModes.total,
+        fallback_responses: responseModes.fallback,
+        fallback_rate: responseModes.total > 0 ? responseModes.fallback / responseModes.total : 0,
+        fallback_by_reason: responseModes.fallbackByReason,
+        refused_responses: responseModes.refused,
+        refused_by_category: responseModes.refusedByCategory,
         avg_response_time: interactions.length > 0 
           ? interactions.reduce((sum, i) => sum + (i.responseTime || 0), 0) / interactions.length 
           : 0,
@@ -662,6 +1163,8 @@ Content: ${article.content.substring(0, 1500)}${article.content.length > 1500 ?
           query: i.userQuery,
           timestamp: i.createdAt,
           response_time: i.responseTime,
+          response_mode: i.responseMode,
+          input_classification: i.inputClassification,
         })),
       };
       
@@ -672,8 +1175,157 @@ Content: ${article.content.substring(0, 1500)}${article.content.length > 1500 ?
     }
   });
 
+  // One metric from the daily rollups, grouped into day, week or month buckets
+  app.get('/api/analytics/timeseries', requireRole('viewer'), async (req, res) => {
+    try {
+      const metric = String(req.query.metric || '') as TimeseriesMetric;
+      if (!timeseriesMetrics.includes(metric)) {
+        return res.status(400).json({ error: `metric must be one of ${timeseriesMetrics.join(', ')}` });
+      }
+
+      const bucket = String(req.query.bucket || 'day') as TimeseriesBucket;
+      if (!timeseriesBuckets.includes(bucket)) {
+        return res.status(400).json({ error: `bucket must be one of ${timeseriesBuckets.join(', ')}` });
+      }
+
+      const range = parseDayRange(req.query, 30);
+      if ('error' in range) {
+        return res.status(400).json({ error: range.error });
+      }
+
+      res.json(await analyticsRollup.timeseries(metric, bucket, range.from, range.to));
+    } catch (error) {
+      console.error('Timeseries error:', error);
+      res.status(500).json({ error: 'Failed to get timeseries' });
+    }
+  });
+
+  // Rebuild rollups on demand, e.g. after late feedback on older answers (defaults to the last 7 days)
+  app.post('/api/analytics/rollup', requireRole('kb_editor'), async (req, res) => {
+    try {
+      const range = parseDayRange(req.body || {}, 7);
+      if ('error' in range) {
+        return res.status(400).json({ error: range.error });
+      }
+
+      const rollups = await analyticsRollup.rollupRange(range.from, range.to);
+      res.json({
+        success: true,
+        from: range.from,
+        to: range.to,
+        days: rollups.length,
+        interactions: rollups.reduce((total, rollup) => total + rollup.interactions, 0),
+      });
+    } catch (error) {
+      console.error('Analytics rollup error:', error);
+      res.status(500).json({ error: 'Failed to roll up analytics' });
+    }
+  });
+
+  // Per-article impressions, click-throughs, helpful rate and ticket-after-view rate, with the previous period for trends
+  app.get('/api/analytics/articles', requireRole('viewer'), async (req, res) => {
+    try {
+      const days = parseInt(String(req.query.days || '30'), 10);
+      if (isNaN(days) || days < 1 || days > 365) {
+        return res.status(400).json({ error: 'days must be between 1 and 365' });
+      }
+
+      const { articleEffectivenessAnalyzer } = await import('./lib/articleEffectiveness.js');
+      res.json(await articleEffectivenessAnalyzer.leaderboard(days));
+    } catch (error) {
+      console.error('Article effectiveness error:', error);
+      res.status(500).json({ error: 'Failed to get article analytics' });
+    }
+  });
+
+  // Zero-result and thumbs-down queries grouped into topics for KB authors; ?format=csv downloads them
+  app.get('/api/analytics/knowledge-gaps', requireRole('viewer'), async (req, res) => {
+    try {
+      const days = parseInt(String(req.query.days || '30'), 10);
+      if (isNaN(days) || days < 1 || days > 365) {
+        return res.status(400).json({ error: 'days must be between 1 and 365' });
+      }
+
+      const { knowledgeGapAnalyzer } = await import('./lib/knowledgeGaps.js');
+      const report = await knowledgeGapAnalyzer.analyze(days);
+
+      if (req.query.format === 'csv') {
+        const date = report.generatedAt.toISOString().split('T')[0];
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="knowledge-gaps-${date}.csv"`);
+        return res.send(knowledgeGapAnalyzer.toCsv(report));
+      }
+
+      res.json(report);
+    } catch (error) {
+      console.error('Knowledge gap report error:', error);
+      res.status(500).json({ error: 'Failed to build knowledge gap report' });
+    }
+  });
+
+  // Paginated, filterable interaction history for the dashboard's interaction browser
+  app.get('/api/interactions', requireRole('viewer'), async (req, res) => {
+    try {
+      const parsed = parseInteractionFilters(req.query);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1);
+      const pageSize = Math.min(Math.max(parseInt(String(req.query.pageSize || '25'), 10) || 25, 1), 100);
+      const { interactions, total } = await storage.findInteractions(parsed.filters, (page - 1) * pageSize, pageSize);
+
+      res.json({
+        page,
+        page_size: pageSize,
+        total,
+        interactions: interactions.map(i => ({
+          id: i.id,
+          user_id: i.userId,
+          query: i.userQuery,
+          timestamp: i.createdAt,
+          response_time: i.responseTime,
+          response_mode: i.responseMode,
+          severity: interactionSeverity(i),
+          articles_shown: Array.isArray(i.foundArticles) ? i.foundArticles.length : 0,
+          was_helpful: i.wasHelpful,
+          has_comment: Boolean(i.feedbackComment),
+        })),
+      });
+    } catch (error) {
+      console.error('Interaction browse error:', error);
+      res.status(500).json({ error: 'Failed to list interactions' });
+    }
+  });
+
+  app.get('/api/interactions/:id', requireRole('viewer'), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Interaction id must be a number' });
+      }
+
+      const interaction = await storage.getSupportInteraction(id);
+      if (!interaction) {
+        return res.status(404).json({ error: `Interaction ${id} not found` });
+      }
+
+      let analysis: unknown = null;
+      try {
+        analysis = interaction.aiResponse.startsWith('{') ? JSON.parse(interaction.aiResponse) : null;
+      } catch {
+        // Older rows may hold plain text; the raw response is returned either way
+      }
+
+      res.json({ ...interaction, severity: interactionSeverity(interaction), analysis });
+    } catch (error) {
+      console.error('Interaction detail error:', error);
+      res.status(500).json({ error: 'Failed to get interaction' });
+    }
+  });
+
   // Simple cache stats endpoint (placeholder for compatibility)
-  app.get('/api/admin/cache-stats', async (req, res) => {
+  app.get('/api/admin/cache-stats', requireRole('admin'), async (req, res) => {
     res.json({ size: 0, keys: [] });
   });
 
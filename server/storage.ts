@@ -3,6 +3,11 @@ import {
   botSessions,
   knowledgeBaseArticles,
   supportInteractions,
+  articleClicks,
+  analyticsDailyRollups,
+  conversationReferences,
+  ticketSnapshots,
+  parseFoundArticles,
   type User, 
   type InsertUser,
   type BotSession,
@@ -11,7 +16,111 @@ import {
   type InsertKnowledgeBaseArticle,
   type SupportInteraction,
   type InsertSupportInteraction,
+  type ArticleClick,
+  type InsertArticleClick,
+  type AnalyticsDailyRollup,
+  type InsertAnalyticsDailyRollup,
+  type ConversationReferenceRecord,
+  type InsertConversationReference,
+  type TicketSnapshot,
+  type InsertTicketSnapshot,
 } from "@shared/schema.js";
+import { db } from "./db.js";
+import { eq, and, desc, sql, gte, lte, isNull, type SQL } from "drizzle-orm";
+
+export interface ResponseModeStats {
+  total: number;
+  fallback: number;
+  fallbackByReason: Record<string, number>;
+  refused: number; // turned away by the guardrails check
+  refusedByCategory: Record<string, number>;
+}
+
+function summarizeResponseModes(
+  rows: { responseMode: string; fallbackReason: string | null; inputClassification: string | null; count: number }[]
+): ResponseModeStats {
+  const stats: ResponseModeStats = { total: 0, fallback: 0, fallbackByReason: {}, refused: 0, refusedByCategory: {} };
+  for (const row of rows) {
+    stats.total += row.count;
+    if (row.responseMode === 'fallback') {
+      const reason = row.fallbackReason || 'error';
+      stats.fallback += row.count;
+      stats.fallbackByReason[reason] = (stats.fallbackByReason[reason] || 0) + row.count;
+    } else if (row.responseMode === 'refused') {
+      const category = row.inputClassification || 'unknown';
+      stats.refused += row.count;
+      stats.refusedByCategory[category] = (stats.refusedByCategory[category] || 0) + row.count;
+    }
+  }
+  return stats;
+}
+
+export type HelpfulnessFilter = 'helpful' | 'not_helpful' | 'no_feedback';
+
+export interface InteractionFilters {
+  userId?: string;
+  from?: Date;
+  to?: Date;
+  helpfulness?: HelpfulnessFilter;
+  severity?: string; // from the stored analysis, so only ai and fallback responses match
+  responseMode?: string;
+  articleId?: string; // interactions that showed this article
+  articlesShown?: boolean; // true: at least one article was shown, false: none
+  minResponseTime?: number;
+  maxResponseTime?: number;
+}
+
+export interface InteractionPage {
+  interactions: SupportInteraction[];
+  total: number;
+}
+
+// How often an article was shown in support cards over a period, and what happened next
+export interface ArticleImpressionStats {
+  articleId: string;
+  title: string | null;
+  impressions: number;
+  clicked: number; // impressions where the user opened the article from the card
+  rated: number; // impressions whose answer got thumbs up or down
+  helpful: number;
+  tickets: number; // impressions followed by a ticket raised from the same card
+}
+
+// aiResponse holds the analysis JSON for ai and fallback responses and plain text for refusals
+export function interactionSeverity(interaction: Pick<SupportInteraction, 'aiResponse'>): string | null {
+  if (!interaction.aiResponse.startsWith('{')) return null;
+  try {
+    return JSON.parse(interaction.aiResponse).severity || null;
+  } catch {
+    return null;
+  }
+}
+
+function shownArticleIds(interaction: SupportInteraction): string[] {
+  return parseFoundArticles(interaction.foundArticles)
+    .map(article => article.articleId)
+    .filter((articleId): articleId is string => !!articleId);
+}
+
+function matchesInteractionFilters(interaction: SupportInteraction, filters: InteractionFilters): boolean {
+  const createdAt = interaction.createdAt?.getTime() || 0;
+  const responseTime = interaction.responseTime ?? 0;
+  const articleIds = shownArticleIds(interaction);
+
+  if (filters.userId && interaction.userId !== filters.userId) return false;
+  if (filters.from && createdAt < filters.from.getTime()) return false;
+  if (filters.to && createdAt > filters.to.getTime()) return false;
+  if (filters.helpfulness === 'helpful' && interaction.wasHelpful !== true) return false;
+  if (filters.helpfulness === 'not_helpful' && interaction.wasHelpful !== false) return false;
+  if (filters.helpfulness === 'no_feedback' && interaction.wasHelpful !== null) return false;
+  if (filters.severity && interactionSeverity(interaction) !== filters.severity) return false;
+  if (filters.responseMode && interaction.responseMode !== filters.responseMode) return false;
+  if (filters.articleId && !articleIds.includes(filters.articleId)) return false;
+  if (filters.articlesShown !== undefined && (articleIds.length > 0) !== filters.articlesShown) return false;
+  if (filters.minResponseTime !== undefined && responseTime < filters.minResponseTime) return false;
+  if (filters.maxResponseTime !== undefined && responseTime > filters.maxResponseTime) return false;
+  return true;
+}
 
 // Storage interface for IT Support Bot
 export interface IStorage {
@@ -19,6 +128,8 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  listUsers(): Promise<User[]>;
+  updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined>;
 
   // Bot session management
   getBotSession(conversationId: string): Promise<BotSession | undefined>;
@@ -36,7 +147,29 @@ export interface IStorage {
   getSupportInteraction(id: number): Promise<SupportInteraction | undefined>;
   getRecentInteractions(limit: number): Promise<SupportInteraction[]>;
   updateInteractionFeedback(id: number, wasHelpful: boolean): Promise<void>;
+  updateInteractionFeedbackComment(id: number, comment: string): Promise<void>;
+  updateInteractionTicket(id: number, ateraTicketId: number): Promise<void>;
   getInteractionsByUserId(userId: string, limit: number): Promise<SupportInteraction[]>;
+  getResponseModeStats(): Promise<ResponseModeStats>;
+  findInteractions(filters: InteractionFilters, offset: number, limit: number): Promise<InteractionPage>;
+
+  // Article effectiveness
+  recordArticleClick(click: InsertArticleClick): Promise<void>;
+  getArticleImpressionStats(from: Date, to: Date): Promise<ArticleImpressionStats[]>;
+
+  // Daily analytics rollups, days as YYYY-MM-DD (UTC)
+  saveDailyRollup(rollup: InsertAnalyticsDailyRollup): Promise<void>;
+  getDailyRollups(fromDay: string, toDay: string): Promise<AnalyticsDailyRollup[]>;
+
+  // Proactive messaging
+  saveConversationReference(reference: InsertConversationReference): Promise<ConversationReferenceRecord>;
+  getConversationReference(userId: string): Promise<ConversationReferenceRecord | undefined>;
+  getConversationReferenceByEmail(email: string): Promise<ConversationReferenceRecord | undefined>;
+  getConversationReferences(): Promise<ConversationReferenceRecord[]>;
+
+  // Ticket change tracking
+  getTicketSnapshot(ticketId: number): Promise<TicketSnapshot | undefined>;
+  saveTicketSnapshot(snapshot: InsertTicketSnapshot): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -58,6 +191,19 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async listUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+
   async getBotSession(conversationId: string): Promise<BotSession | undefined> {
     const [session] = await db.select().from(botSessions).where(eq(botSessions.conversationId, conversationId));
     return session || undefined;
@@ -146,6 +292,20 @@ export class DatabaseStorage implements IStorage {
       .where(eq(supportInteractions.id, id));
   }
 
+  async updateInteractionFeedbackComment(id: number, comment: string): Promise<void> {
+    await db
+      .update(supportInteractions)
+      .set({ feedbackComment: comment })
+      .where(eq(supportInteractions.id, id));
+  }
+
+  async updateInteractionTicket(id: number, ateraTicketId: number): Promise<void> {
+    await db
+      .update(supportInteractions)
+      .set({ ateraTicketId })
+      .where(eq(supportInteractions.id, id));
+  }
+
   async getInteractionsByUserId(userId: string, limit: number): Promise<SupportInteraction[]> {
     return await db
       .select()
@@ -154,6 +314,153 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(supportInteractions.createdAt))
       .limit(limit);
   }
+
+  async getResponseModeStats(): Promise<ResponseModeStats> {
+    const rows = await db
+      .select({
+        responseMode: supportInteractions.responseMode,
+        fallbackReason: supportInteractions.fallbackReason,
+        inputClassification: supportInteractions.inputClassification,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(supportInteractions)
+      .groupBy(supportInteractions.responseMode, supportInteractions.fallbackReason, supportInteractions.inputClassification);
+
+    return summarizeResponseModes(rows);
+  }
+
+  async findInteractions(filters: InteractionFilters, offset: number, limit: number): Promise<InteractionPage> {
+    const conditions: SQL[] = [];
+    if (filters.userId) conditions.push(eq(supportInteractions.userId, filters.userId));
+    if (filters.from) conditions.push(gte(supportInteractions.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(supportInteractions.createdAt, filters.to));
+    if (filters.helpfulness === 'helpful') conditions.push(eq(supportInteractions.wasHelpful, true));
+    if (filters.helpfulness === 'not_helpful') conditions.push(eq(supportInteractions.wasHelpful, false));
+    if (filters.helpfulness === 'no_feedback') conditions.push(isNull(supportInteractions.wasHelpful));
+    if (filters.severity) {
+      conditions.push(sql`(case when ${supportInteractions.aiResponse} like '{%' then ${supportInteractions.aiResponse}::jsonb ->> 'severity' end) = ${filters.severity}`);
+    }
+    if (filters.responseMode) conditions.push(eq(supportInteractions.responseMode, filters.responseMode));
+    if (filters.articleId) {
+      conditions.push(sql`${supportInteractions.foundArticles} @> ${JSON.stringify([{ articleId: filters.articleId }])}::jsonb`);
+    }
+    if (filters.articlesShown !== undefined) {
+      const articleCount = sql`coalesce(jsonb_array_length(${supportInteractions.foundArticles}), 0)`;
+      conditions.push(filters.articlesShown ? sql`${articleCount} > 0` : sql`${articleCount} = 0`);
+    }
+    if (filters.minResponseTime !== undefined) conditions.push(gte(supportInteractions.responseTime, filters.minResponseTime));
+    if (filters.maxResponseTime !== undefined) conditions.push(lte(supportInteractions.responseTime, filters.maxResponseTime));
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const [interactions, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(supportInteractions)
+        .where(where)
+        .orderBy(desc(supportInteractions.createdAt), desc(supportInteractions.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(supportInteractions)
+        .where(where),
+    ]);
+
+    return { interactions, total };
+  }
+
+  async recordArticleClick(click: InsertArticleClick): Promise<void> {
+    await db.insert(articleClicks).values(click);
+  }
+
+  async getArticleImpressionStats(from: Date, to: Date): Promise<ArticleImpressionStats[]> {
+    // One row per article shown in each interaction's card
+    const result = await db.execute(sql`
+      SELECT shown.article_id AS "articleId",
+        max(shown.title) AS "title",
+        count(*)::int AS "impressions",
+        count(*) FILTER (WHERE EXISTS (
+          SELECT 1 FROM ${articleClicks} c
+          WHERE c.interaction_id = si.id AND c.article_id = shown.article_id
+        ))::int AS "clicked",
+        count(*) FILTER (WHERE si.was_helpful IS NOT NULL)::int AS "rated",
+        count(*) FILTER (WHERE si.was_helpful)::int AS "helpful",
+        count(*) FILTER (WHERE si.atera_ticket_id IS NOT NULL)::int AS "tickets"
+      FROM ${supportInteractions} si
+      CROSS JOIN LATERAL (
+        SELECT DISTINCT article ->> 'articleId' AS article_id, article ->> 'title' AS title
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(si.found_articles) = 'array' THEN si.found_articles ELSE '[]'::jsonb END
+        ) AS article
+      ) shown
+      WHERE si.created_at >= ${from} AND si.created_at < ${to} AND shown.article_id IS NOT NULL
+      GROUP BY shown.article_id
+    `);
+    return result.rows as unknown as ArticleImpressionStats[];
+  }
+
+  async saveDailyRollup(rollup: InsertAnalyticsDailyRollup): Promise<void> {
+    await db
+      .insert(analyticsDailyRollups)
+      .values(rollup)
+      .onConflictDoUpdate({
+        target: analyticsDailyRollups.day,
+        set: { ...rollup, computedAt: new Date() },
+      });
+  }
+
+  async getDailyRollups(fromDay: string, toDay: string): Promise<AnalyticsDailyRollup[]> {
+    return await db
+      .select()
+      .from(analyticsDailyRollups)
+      .where(and(gte(analyticsDailyRollups.day, fromDay), lte(analyticsDailyRollups.day, toDay)))
+      .orderBy(analyticsDailyRollups.day);
+  }
+
+  async saveConversationReference(insertReference: InsertConversationReference): Promise<ConversationReferenceRecord> {
+    const [reference] = await db
+      .insert(conversationReferences)
+      .values(insertReference)
+      .onConflictDoUpdate({
+        target: conversationReferences.userId,
+        set: { ...insertReference, updatedAt: new Date() },
+      })
+      .returning();
+    return reference;
+  }
+
+  async getConversationReference(userId: string): Promise<ConversationReferenceRecord | undefined> {
+    const [reference] = await db.select().from(conversationReferences).where(eq(conversationReferences.userId, userId));
+    return reference || undefined;
+  }
+
+  async getConversationReferenceByEmail(email: string): Promise<ConversationReferenceRecord | undefined> {
+    const [reference] = await db
+      .select()
+      .from(conversationReferences)
+      .where(sql`LOWER(${conversationReferences.email}) = ${email.toLowerCase()}`)
+      .orderBy(desc(conversationReferences.updatedAt));
+    return reference || undefined;
+  }
+
+  async getConversationReferences(): Promise<ConversationReferenceRecord[]> {
+    return await db.select().from(conversationReferences);
+  }
+
+  async getTicketSnapshot(ticketId: number): Promise<TicketSnapshot | undefined> {
+    const [snapshot] = await db.select().from(ticketSnapshots).where(eq(ticketSnapshots.ticketId, ticketId));
+    return snapshot || undefined;
+  }
+
+  async saveTicketSnapshot(insertSnapshot: InsertTicketSnapshot): Promise<void> {
+    await db
+      .insert(ticketSnapshots)
+      .values(insertSnapshot)
+      .onConflictDoUpdate({
+        target: ticketSnapshots.ticketId,
+        set: { ...insertSnapshot, updatedAt: new Date() },
+      });
+  }
 }
 
 export class MemStorage implements IStorage {
@@ -161,20 +468,32 @@ export class MemStorage implements IStorage {
   private botSessions: Map<string, BotSession>;
   private knowledgeBaseArticles: Map<string, KnowledgeBaseArticle>;
   private supportInteractions: Map<number, SupportInteraction>;
+  private articleClicks: ArticleClick[];
+  private dailyRollups: Map<string, AnalyticsDailyRollup>;
+  private conversationReferences: Map<string, ConversationReferenceRecord>;
+  private ticketSnapshots: Map<number, TicketSnapshot>;
   private currentUserId: number;
   private currentSessionId: number;
   private currentArticleId: number;
   private currentInteractionId: number;
+  private currentReferenceId: number;
+  private currentSnapshotId: number;
 
   constructor() {
     this.users = new Map();
     this.botSessions = new Map();
     this.knowledgeBaseArticles = new Map();
     this.supportInteractions = new Map();
+    this.articleClicks = [];
+    this.dailyRollups = new Map();
+    this.conversationReferences = new Map();
+    this.ticketSnapshots = new Map();
     this.currentUserId = 1;
     this.currentSessionId = 1;
     this.currentArticleId = 1;
     this.currentInteractionId = 1;
+    this.currentReferenceId = 1;
+    this.currentSnapshotId = 1;
   }
 
   // User management
@@ -190,11 +509,24 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, role: insertUser.role ?? 'viewer', id };
     this.users.set(id, user);
     return user;
   }
 
+  async listUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated: User = { ...user, ...updates, id };
+    this.users.set(id, updated);
+    return updated;
+  }
+
   // Bot session management
   async getBotSession(conversationId: string): Promise<BotSession | undefined> {
     return Array.from(this.botSessions.values()).find(
@@ -281,7 +613,14 @@ export class MemStorage implements IStorage {
       generatedKeywords: insertInteraction.generatedKeywords || null,
       foundArticles: insertInteraction.foundArticles || null,
       responseTime: insertInteraction.responseTime || null,
-      wasHelpful: insertInteraction.wasHelpful || null,
+      wasHelpful: insertInteraction.wasHelpful ?? null,
+      feedbackComment: insertInteraction.feedbackComment || null,
+      ateraTicketId: insertInteraction.ateraTicketId ?? null,
+      responseMode: insertInteraction.responseMode || 'ai',
+      fallbackReason: insertInteraction.fallbackReason || null,
+      redactionCounts: insertInteraction.redactionCounts ?? null,
+      inputClassification: insertInteraction.inputClassification || null,
+      classificationReason: insertInteraction.classificationReason || null,
     };
     this.supportInteractions.set(id, interaction);
     return interaction;
@@ -306,6 +645,22 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateInteractionFeedbackComment(id: number, comment: string): Promise<void> {
+    const interaction = this.supportInteractions.get(id);
+    if (interaction) {
+      interaction.feedbackComment = comment;
+      this.supportInteractions.set(id, interaction);
+    }
+  }
+
+  async updateInteractionTicket(id: number, ateraTicketId: number): Promise<void> {
+    const interaction = this.supportInteractions.get(id);
+    if (interaction) {
+      interaction.ateraTicketId = ateraTicketId;
+      this.supportInteractions.set(id, interaction);
+    }
+  }
+
   async getInteractionsByUserId(userId: string, limit: number): Promise<SupportInteraction[]> {
     const interactions = Array.from(this.supportInteractions.values());
     return interactions
@@ -313,6 +668,130 @@ export class MemStorage implements IStorage {
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
       .slice(0, limit);
   }
+
+  async getResponseModeStats(): Promise<ResponseModeStats> {
+    return summarizeResponseModes(
+      Array.from(this.supportInteractions.values()).map(interaction => ({
+        responseMode: interaction.responseMode,
+        fallbackReason: interaction.fallbackReason,
+        inputClassification: interaction.inputClassification,
+        count: 1,
+      }))
+    );
+  }
+
+  async findInteractions(filters: InteractionFilters, offset: number, limit: number): Promise<InteractionPage> {
+    const matches = Array.from(this.supportInteractions.values())
+      .filter(interaction => matchesInteractionFilters(interaction, filters))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0) || b.id - a.id);
+
+    return { interactions: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  async recordArticleClick(click: InsertArticleClick): Promise<void> {
+    this.articleClicks.push({
+      ...click,
+      id: this.articleClicks.length + 1,
+      userId: click.userId ?? null,
+      clickedAt: new Date(),
+    });
+  }
+
+  async getArticleImpressionStats(from: Date, to: Date): Promise<ArticleImpressionStats[]> {
+    const stats = new Map<string, ArticleImpressionStats>();
+
+    for (const interaction of Array.from(this.supportInteractions.values())) {
+      const createdAt = interaction.createdAt?.getTime() || 0;
+      if (createdAt < from.getTime() || createdAt >= to.getTime()) continue;
+
+      const shown = parseFoundArticles(interaction.foundArticles);
+      for (const articleId of Array.from(new Set(shownArticleIds(interaction)))) {
+        const article = shown.find(candidate => candidate.articleId === articleId);
+        const entry = stats.get(articleId)
+          || { articleId, title: article?.title || null, impressions: 0, clicked: 0, rated: 0, helpful: 0, tickets: 0 };
+        entry.impressions++;
+        if (this.articleClicks.some(click => click.interactionId === interaction.id && click.articleId === articleId)) entry.clicked++;
+        if (interaction.wasHelpful !== null) entry.rated++;
+        if (interaction.wasHelpful === true) entry.helpful++;
+        if (interaction.ateraTicketId !== null) entry.tickets++;
+        stats.set(articleId, entry);
+      }
+    }
+
+    return Array.from(stats.values());
+  }
+
+  async saveDailyRollup(rollup: InsertAnalyticsDailyRollup): Promise<void> {
+    const existing = this.dailyRollups.get(rollup.day);
+    this.dailyRollups.set(rollup.day, {
+      id: existing?.id ?? this.dailyRollups.size + 1,
+      day: rollup.day,
+      interactions: rollup.interactions ?? 0,
+      uniqueUsers: rollup.uniqueUsers ?? 0,
+      userIds: rollup.userIds ?? null,
+      p50ResponseTime: rollup.p50ResponseTime ?? null,
+      p95ResponseTime: rollup.p95ResponseTime ?? null,
+      responseTimeHistogram: rollup.responseTimeHistogram ?? null,
+      rated: rollup.rated ?? 0,
+      helpful: rollup.helpful ?? 0,
+      fallback: rollup.fallback ?? 0,
+      refused: rollup.refused ?? 0,
+      severityCounts: rollup.severityCounts ?? null,
+      computedAt: new Date(),
+    });
+  }
+
+  async getDailyRollups(fromDay: string, toDay: string): Promise<AnalyticsDailyRollup[]> {
+    return Array.from(this.dailyRollups.values())
+      .filter(rollup => rollup.day >= fromDay && rollup.day <= toDay)
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  // Proactive messaging
+  async saveConversationReference(insertReference: InsertConversationReference): Promise<ConversationReferenceRecord> {
+    const existing = this.conversationReferences.get(insertReference.userId);
+    const reference: ConversationReferenceRecord = {
+      ...insertReference,
+      id: existing?.id ?? this.currentReferenceId++,
+      email: insertReference.email ?? existing?.email ?? null,
+      updatedAt: new Date(),
+    };
+    this.conversationReferences.set(insertReference.userId, reference);
+    return reference;
+  }
+
+  async getConversationReference(userId: string): Promise<ConversationReferenceRecord | undefined> {
+    return this.conversationReferences.get(userId);
+  }
+
+  async getConversationReferenceByEmail(email: string): Promise<ConversationReferenceRecord | undefined> {
+    return Array.from(this.conversationReferences.values())
+      .filter(reference => reference.email?.toLowerCase() === email.toLowerCase())
+      .sort((a, b) => (b.updatedAt?.getTime() || 0) - (a.updatedAt?.getTime() || 0))[0];
+  }
+
+  async getConversationReferences(): Promise<ConversationReferenceRecord[]> {
+    return Array.from(this.conversationReferences.values());
+  }
+
+  // Ticket change tracking
+  async getTicketSnapshot(ticketId: number): Promise<TicketSnapshot | undefined> {
+    return this.ticketSnapshots.get(ticketId);
+  }
+
+  async saveTicketSnapshot(insertSnapshot: InsertTicketSnapshot): Promise<void> {
+    const existing = this.ticketSnapshots.get(insertSnapshot.ticketId);
+    this.ticketSnapshots.set(insertSnapshot.ticketId, {
+      ...insertSnapshot,
+      id: existing?.id ?? this.currentSnapshotId++,
+      endUserEmail: insertSnapshot.endUserEmail ?? null,
+      technician: insertSnapshot.technician ?? null,
+      lastTechnicianCommentAt: insertSnapshot.lastTechnicianCommentAt ?? null,
+      updatedAt: new Date(),
+    });
+  }
 }
 
-export const storage = new MemStorage();
+// Everything the bot and dashboard record lives in Postgres (db.ts already refuses to start
+// without DATABASE_URL); MemStorage is only for exercising code without a database
+export const storage = new DatabaseStorage();
@@ -1,11 +1,13 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, unique, date, index, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash
+  role: text("role").notNull().default("viewer"), // viewer | kb_editor | admin
 });
 
 export const botSessions = pgTable("bot_sessions", {
@@ -31,23 +33,114 @@ export const knowledgeBaseArticles = pgTable("knowledge_base_articles", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   kbIsPrivate: boolean("kb_is_private").default(false),
   kbStatus: integer("kb_status").default(2),
+  lastSyncedAt: timestamp("last_synced_at"), // start of the last sync that ran to the end
 });
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Heading-aware sections of each article. Retrieval works at this level so answers
+// can point at the relevant part of a long how-to instead of its intro.
+export const knowledgeBaseChunks = pgTable("knowledge_base_chunks", {
+  id: serial("id").primaryKey(),
+  articleId: text("article_id").notNull().references(() => knowledgeBaseArticles.articleId, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  heading: text("heading"),
+  anchor: text("anchor"),
+  content: text("content").notNull(),
+  contentHash: text("content_hash").notNull(),
+  // Copied from the article by the sync, since a generated column can only read its own row
+  articleTitle: text("article_title"),
+  articleKeywords: text("article_keywords"),
+  // Cleared whenever the chunk text changes, regenerated by the sync
+  model: text("model"),
+  embedding: real("embedding").array(),
+  // Lexical search document: article title and section heading (weight A), article
+  // keywords (B) and section text (C)
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(article_title, '') || ' ' || coalesce(heading, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(article_keywords, '')), 'B') ||
+    setweight(to_tsvector('english', content), 'C')
+  `),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("knowledge_base_chunks_article_chunk").on(table.articleId, table.chunkIndex),
+  index("knowledge_base_chunks_search_vector").using("gin", table.searchVector),
+]);
+
 export const supportInteractions = pgTable("support_interactions", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
   userQuery: text("user_query").notNull(),
-  generatedKeywords: text("generated_keywords").array(),
+  generatedKeywords: text("generated_keywords").array(), // terms the full-text search ran with
   foundArticles: jsonb("found_articles"),
   aiResponse: text("ai_response").notNull(),
   responseTime: integer("response_time"), // in milliseconds
   wasHelpful: boolean("was_helpful"),
+  feedbackComment: text("feedback_comment"),
+  ateraTicketId: integer("atera_ticket_id"),
+  responseMode: text("response_mode").notNull().default("ai"), // ai | fallback (knowledge base results only) | refused
+  fallbackReason: text("fallback_reason"), // error | timeout, when responseMode is fallback
+  inputClassification: text("input_classification"), // support | off_topic | abusive | injection, from the guardrails check
+  classificationReason: text("classification_reason"),
+  redactionCounts: jsonb("redaction_counts"), // matches removed from userQuery per rule, e.g. { "email": 1 }
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Article links opened from a support card, recorded by the /api/kb/open redirect
+export const articleClicks = pgTable("article_clicks", {
+  id: serial("id").primaryKey(),
+  interactionId: integer("interaction_id").notNull(),
+  articleId: text("article_id").notNull(),
+  userId: text("user_id"),
+  clickedAt: timestamp("clicked_at").defaultNow().notNull(),
+});
+
+// Support interaction totals for one UTC day, rebuilt nightly (and on demand) by the analytics rollup
+export const analyticsDailyRollups = pgTable("analytics_daily_rollups", {
+  id: serial("id").primaryKey(),
+  day: date("day", { mode: "string" }).notNull().unique(),
+  interactions: integer("interactions").notNull().default(0),
+  uniqueUsers: integer("unique_users").notNull().default(0),
+  userIds: text("user_ids").array(), // so unique users can be counted across days for weekly and monthly buckets
+  p50ResponseTime: integer("p50_response_time"),
+  p95ResponseTime: integer("p95_response_time"),
+  responseTimeHistogram: jsonb("response_time_histogram"), // counts per bucket upper bound in ms, merged for longer periods
+  rated: integer("rated").notNull().default(0),
+  helpful: integer("helpful").notNull().default(0),
+  fallback: integer("fallback").notNull().default(0),
+  refused: integer("refused").notNull().default(0),
+  severityCounts: jsonb("severity_counts"), // e.g. { "low": 4, "high": 1 }
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+});
+
+// Where to reach each Teams user proactively (from TurnContext.getConversationReference)
+export const conversationReferences = pgTable("conversation_references", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().unique(),
+  email: text("email"),
+  reference: jsonb("reference").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Last seen state of each Atera ticket, used to detect status changes and new replies
+export const ticketSnapshots = pgTable("ticket_snapshots", {
+  id: serial("id").primaryKey(),
+  ticketId: integer("ticket_id").notNull().unique(),
+  endUserEmail: text("end_user_email"),
+  status: text("status").notNull(),
+  technician: text("technician"),
+  lastTechnicianCommentAt: text("last_technician_comment_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export const insertBotSessionSchema = createInsertSchema(botSessions).omit({
@@ -65,11 +158,59 @@ export const insertSupportInteractionSchema = createInsertSchema(supportInteract
   createdAt: true,
 });
 
+export const insertArticleClickSchema = createInsertSchema(articleClicks).omit({
+  id: true,
+  clickedAt: true,
+});
+
+export const insertAnalyticsDailyRollupSchema = createInsertSchema(analyticsDailyRollups).omit({
+  id: true,
+  computedAt: true,
+});
+
+export const insertConversationReferenceSchema = createInsertSchema(conversationReferences).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertTicketSnapshotSchema = createInsertSchema(ticketSnapshots).omit({
+  id: true,
+  updatedAt: true,
+});
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type BotSession = typeof botSessions.$inferSelect;
 export type InsertBotSession = z.infer<typeof insertBotSessionSchema>;
 export type KnowledgeBaseArticle = typeof knowledgeBaseArticles.$inferSelect;
 export type InsertKnowledgeBaseArticle = z.infer<typeof insertKnowledgeBaseArticleSchema>;
+export type KnowledgeBaseChunk = typeof knowledgeBaseChunks.$inferSelect;
 export type SupportInteraction = typeof supportInteractions.$inferSelect;
 export type InsertSupportInteraction = z.infer<typeof insertSupportInteractionSchema>;
+export type ArticleClick = typeof articleClicks.$inferSelect;
+export type InsertArticleClick = z.infer<typeof insertArticleClickSchema>;
+export type AnalyticsDailyRollup = typeof analyticsDailyRollups.$inferSelect;
+export type InsertAnalyticsDailyRollup = z.infer<typeof insertAnalyticsDailyRollupSchema>;
+export type ConversationReferenceRecord = typeof conversationReferences.$inferSelect;
+export type InsertConversationReference = z.infer<typeof insertConversationReferenceSchema>;
+export type TicketSnapshot = typeof ticketSnapshots.$inferSelect;
+export type InsertTicketSnapshot = z.infer<typeof insertTicketSnapshotSchema>;
+
+// One entry of support_interactions.found_articles: an article shown on the support card, in
+// card order. Rows are read back through parseFoundArticles, which keeps every entry in place
+// (link positions and citations count on it) and drops fields of the wrong type.
+export const foundArticleSchema = z.preprocess(
+  (value) => (value && typeof value === "object" ? value : {}),
+  z.object({
+    articleId: z.string().optional().catch(undefined), // missing on interactions from before article ids were stored
+    title: z.string().catch(""),
+    url: z.string().optional().catch(undefined),
+    excerpt: z.string().optional().catch(undefined),
+    relevanceScore: z.number().optional().catch(undefined),
+  }),
+);
+export type FoundArticle = z.infer<typeof foundArticleSchema>;
+
+export function parseFoundArticles(value: unknown): FoundArticle[] {
+  return Array.isArray(value) ? value.map((entry) => foundArticleSchema.parse(entry)) : [];
+}